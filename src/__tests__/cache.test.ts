@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { MetadataCache } from 'cache';
+import { mockPlugin } from './storage-plugin';
+
+describe('MetadataCache', () => {
+  let files: Record<string, string>;
+  let cache: MetadataCache;
+
+  beforeEach(async () => {
+    files = {};
+    cache = new MetadataCache(mockPlugin(files));
+    await cache.load();
+  });
+
+  it('stores and returns metadata by normalized URL', () => {
+    cache.set('http://www.youtube.com/watch?v=abc', 'youtube', { title: 'Video' }, 24);
+    const entry = cache.get('https://youtube.com/watch?v=abc');
+    expect(entry?.client).toBe('youtube');
+    expect(entry?.metadata.title).toBe('Video');
+  });
+
+  it('skips caching when TTL is zero', () => {
+    cache.set('https://example.com', 'default', { title: 'Example' }, 0);
+    expect(cache.get('https://example.com')).toBeUndefined();
+  });
+
+  it('keeps expired entries until pruned', async () => {
+    vi.useFakeTimers();
+    cache.set('https://example.com', 'default', { title: 'Example' }, 1);
+    vi.advanceTimersByTime(2 * 60 * 60 * 1000);
+
+    const entry = cache.get('https://example.com')!;
+    expect(cache.isExpired(entry)).toBe(true);
+
+    expect(await cache.prune()).toBe(1);
+    expect(cache.get('https://example.com')).toBeUndefined();
+    vi.useRealTimers();
+  });
+
+  it('clears every entry', async () => {
+    cache.set('https://a.com', 'default', { title: 'A' }, 24);
+    cache.set('https://b.com', 'default', { title: 'B' }, 24);
+    expect(await cache.clear()).toBe(2);
+    expect(cache.size).toBe(0);
+  });
+
+  it('clears the entries of one client', async () => {
+    cache.set('https://a.com', 'custom-1', { title: 'A' }, 24);
+    cache.set('https://b.com', 'default', { title: 'B' }, 24);
+    expect(await cache.clearClient('custom-1')).toBe(1);
+    expect(cache.get('https://a.com')).toBeUndefined();
+    expect(cache.get('https://b.com')?.metadata.title).toBe('B');
+  });
+
+  it('persists entries across instances', async () => {
+    cache.set('https://example.com', 'default', { title: 'Example' }, 24);
+    await cache.save();
+
+    const reloaded = new MetadataCache(mockPlugin(files));
+    await reloaded.load();
+    expect(reloaded.get('https://example.com')?.metadata.title).toBe('Example');
+  });
+
+  it('lists most recently fetched entries first', () => {
+    vi.useFakeTimers();
+    cache.set('https://old.com', 'default', { title: 'Old' }, 24);
+    vi.advanceTimersByTime(1000);
+    cache.set('https://new.com', 'default', { title: 'New' }, 24);
+    expect(cache.list().map(e => e.url)).toEqual(['https://new.com', 'https://old.com']);
+    vi.useRealTimers();
+  });
+});
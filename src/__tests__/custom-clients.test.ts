@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CustomClient,
+  createCustomClientConfig,
+  extractHtmlVariables,
+  extractJsonVariables,
+  fillEndpoint,
+  formatVariableLines,
+  getValueAtPath,
+  parseVariableLines,
+} from 'custom-clients';
+
+describe('parseVariableLines', () => {
+  it('parses selectors, attributes and field paths', () => {
+    const text = 'title = h1.page-title\nimage = meta[property="og:image"] @content\nviews = data.stats.views';
+    expect(parseVariableLines(text)).toEqual([
+      { name: 'title', source: 'h1.page-title' },
+      { name: 'image', source: 'meta[property="og:image"]', attribute: 'content' },
+      { name: 'views', source: 'data.stats.views' },
+    ]);
+  });
+
+  it('ignores blank and malformed lines', () => {
+    expect(parseVariableLines('\nno equals sign\n = missing name\ntitle = h1')).toEqual([
+      { name: 'title', source: 'h1' },
+    ]);
+  });
+
+  it('round-trips through formatVariableLines', () => {
+    const variables = [
+      { name: 'title', source: 'h1' },
+      { name: 'image', source: 'meta[name=image]', attribute: 'content' },
+    ];
+    expect(parseVariableLines(formatVariableLines(variables))).toEqual(variables);
+  });
+});
+
+describe('fillEndpoint', () => {
+  const match = 'https://wiki.example.com/page/42'.match(/page\/(?<id>\d+)/);
+
+  it('fills the encoded url, numbered groups and named groups', () => {
+    expect(fillEndpoint('https://api.example.com/{1}?ref={url}&id={id}', 'https://wiki.example.com/page/42', match))
+      .toBe('https://api.example.com/42?ref=https%3A%2F%2Fwiki.example.com%2Fpage%2F42&id=42');
+  });
+
+  it('leaves unknown placeholders untouched', () => {
+    expect(fillEndpoint('https://api.example.com/{2}/{missing}', 'https://x.com', match))
+      .toBe('https://api.example.com/{2}/{missing}');
+  });
+});
+
+describe('getValueAtPath', () => {
+  const data = { data: { items: [{ title: 'First', count: 3, draft: false }] } };
+
+  it('reads nested fields with dot and bracket indexes', () => {
+    expect(getValueAtPath(data, 'data.items.0.title')).toBe('First');
+    expect(getValueAtPath(data, 'data.items[0].count')).toBe('3');
+    expect(getValueAtPath(data, 'data.items.0.draft')).toBe('false');
+  });
+
+  it('returns undefined for missing paths and objects', () => {
+    expect(getValueAtPath(data, 'data.items.1.title')).toBeUndefined();
+    expect(getValueAtPath(data, 'data.items')).toBeUndefined();
+  });
+});
+
+describe('variable extraction', () => {
+  it('reads text and attributes from HTML', () => {
+    const doc = new DOMParser().parseFromString(
+      '<html><head><meta property="og:image" content="https://x.com/a.png"></head><body><h1> Page *one* </h1></body></html>',
+      'text/html'
+    );
+    expect(extractHtmlVariables(doc, [
+      { name: 'title', source: 'h1' },
+      { name: 'image', source: 'meta[property="og:image"]', attribute: 'content' },
+      { name: 'missing', source: '.nope' },
+      { name: 'invalid', source: '[[' },
+    ])).toEqual({
+      title: 'Page \\*one\\*',
+      image: 'https://x.com/a.png',
+      missing: undefined,
+      invalid: undefined,
+    });
+  });
+
+  it('reads fields from JSON', () => {
+    expect(extractJsonVariables({ page: { name: 'Home' } }, [
+      { name: 'title', source: 'page.name' },
+      { name: 'author', source: 'page.author' },
+    ])).toEqual({ title: 'Home', author: undefined });
+  });
+});
+
+describe('CustomClient', () => {
+  it('matches with its pattern only while enabled', () => {
+    const config = { ...createCustomClientConfig(), pattern: '^https://wiki\\.example\\.com/' };
+    expect(new CustomClient(config).matches('https://wiki.example.com/page')).toBe(true);
+    expect(new CustomClient(config).matches('https://example.com/page')).toBe(false);
+    expect(new CustomClient({ ...config, enabled: false }).matches('https://wiki.example.com/page')).toBe(false);
+  });
+
+  it('never matches with an empty or invalid pattern', () => {
+    expect(new CustomClient({ ...createCustomClientConfig(), pattern: '' }).matches('https://a.com')).toBe(false);
+    expect(new CustomClient({ ...createCustomClientConfig(), pattern: '(' }).matches('https://a.com')).toBe(false);
+  });
+
+  it('uses its config for name, variables and default format', () => {
+    const config = { ...createCustomClientConfig(), id: 'abc', format: '[{title}] - Wiki' };
+    const client = new CustomClient(config);
+    expect(client.name).toBe('custom-abc');
+    expect(client.defaultFormat).toBe('[{title}] - Wiki');
+    expect(client.getAvailableVariables()).toEqual(['title', 'url']);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { EditorState, EditorSelection, Transaction } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
+import { EditBatch } from 'edit-batch';
+
+function createEditor(doc: string) {
+  const transactions: Transaction[] = [];
+  const view = new EditorView({
+    state: EditorState.create({ doc }),
+    dispatchTransactions: (trs, v) => {
+      transactions.push(...trs);
+      v.update(trs);
+    },
+  });
+  return { editor: { cm: view } as any, view, transactions };
+}
+
+function select(view: EditorView, from: number, to: number) {
+  view.dispatch({ selection: EditorSelection.single(from, to) });
+}
+
+describe('EditBatch', () => {
+  it('is not grouped without a CodeMirror view', () => {
+    expect(new EditBatch({} as any).grouped).toBe(false);
+  });
+
+  it('writes every settled link on commit', () => {
+    const { editor, view } = createEditor('https://a.com https://b.com');
+    const batch = new EditBatch(editor);
+
+    select(view, 14, 27);
+    batch.insertPlaceholder('<B>', 'https://b.com');
+    select(view, 0, 13);
+    batch.insertPlaceholder('<A>', 'https://a.com');
+    expect(view.state.doc.toString()).toBe('<A> <B>');
+
+    batch.settle('<A>', '[A](https://a.com)');
+    batch.settle('<B>', '[B](https://b.com)');
+    expect(batch.commit()).toEqual(['<B>', '<A>']);
+    expect(view.state.doc.toString()).toBe('[A](https://a.com) [B](https://b.com)');
+  });
+
+  it('keeps placeholders out of the undo history and commits in one transaction', () => {
+    const { editor, view, transactions } = createEditor('https://a.com https://b.com');
+    const batch = new EditBatch(editor);
+
+    select(view, 14, 27);
+    batch.insertPlaceholder('<B>', 'https://b.com');
+    select(view, 0, 13);
+    batch.insertPlaceholder('<A>', 'https://a.com');
+    batch.settle('<A>', 'A');
+    batch.settle('<B>', 'B');
+    batch.commit();
+
+    const withChanges = transactions.filter(tr => tr.docChanged);
+    const recorded = withChanges.filter(tr => tr.annotation(Transaction.addToHistory) !== false);
+    expect(recorded).toHaveLength(1);
+    expect(recorded[0].startState.doc.toString()).toBe('https://a.com https://b.com');
+    expect(recorded[0].state.doc.toString()).toBe('A B');
+  });
+
+  it('skips placeholders deleted before commit', () => {
+    const { editor, view } = createEditor('https://a.com');
+    const batch = new EditBatch(editor);
+
+    select(view, 0, 13);
+    batch.insertPlaceholder('<A>', 'https://a.com');
+    view.dispatch({ changes: { from: 0, to: view.state.doc.length, insert: 'gone' } });
+
+    batch.settle('<A>', 'A');
+    batch.commit();
+    expect(view.state.doc.toString()).toBe('gone');
+  });
+
+  it('restores the original text for unsettled links', () => {
+    const { editor, view } = createEditor('https://a.com');
+    const batch = new EditBatch(editor);
+
+    select(view, 0, 13);
+    batch.insertPlaceholder('<A>', 'https://a.com');
+    batch.commit();
+    expect(view.state.doc.toString()).toBe('https://a.com');
+  });
+});
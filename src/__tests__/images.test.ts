@@ -0,0 +1,130 @@
+import { describe, it, expect, vi } from 'vitest';
+import { findExistingImage, getImageFilename, readImageHeader, saveImageAttachment } from 'images';
+import { formatFileSize } from 'utils';
+
+function bytes(...parts: (number[] | string)[]): Uint8Array {
+  const values = parts.flatMap(part => typeof part === 'string' ? [...part].map(c => c.charCodeAt(0)) : part);
+  return new Uint8Array(values);
+}
+
+describe('readImageHeader', () => {
+  it('reads PNG dimensions from the IHDR chunk', () => {
+    const png = bytes([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], [0, 0, 0, 13], 'IHDR', [0, 0, 0x07, 0x80], [0, 0, 0x04, 0x38]);
+    expect(readImageHeader(png)).toEqual({ mime: 'image/png', width: 1920, height: 1080 });
+  });
+
+  it('reads GIF dimensions', () => {
+    expect(readImageHeader(bytes('GIF89a', [0x40, 0x01, 0xf0, 0x00]))).toEqual({ mime: 'image/gif', width: 320, height: 240 });
+  });
+
+  it('skips JPEG segments until the start of frame', () => {
+    const jpeg = bytes(
+      [0xff, 0xd8],
+      [0xff, 0xe0, 0x00, 0x06], 'JFIF',
+      [0xff, 0xc0, 0x00, 0x11, 0x08, 0x02, 0x58, 0x03, 0x20, 0x03],
+    );
+    expect(readImageHeader(jpeg)).toEqual({ mime: 'image/jpeg', width: 800, height: 600 });
+  });
+
+  it('reads extended WebP dimensions', () => {
+    const webp = bytes('RIFF', [0, 0, 0, 0], 'WEBP', 'VP8X', [10, 0, 0, 0], [0, 0, 0, 0], [0xff, 0x03, 0x00], [0x7f, 0x02, 0x00]);
+    expect(readImageHeader(webp)).toEqual({ mime: 'image/webp', width: 1024, height: 640 });
+  });
+
+  it('reads SVG dimensions from attributes or the viewBox', () => {
+    expect(readImageHeader(bytes('<?xml version="1.0"?><svg xmlns="http://www.w3.org/2000/svg" width="48px" height="32">')))
+      .toEqual({ mime: 'image/svg+xml', width: 48, height: 32 });
+    expect(readImageHeader(bytes('<svg viewBox="0 0 100 50.5">')))
+      .toEqual({ mime: 'image/svg+xml', width: 100, height: 51 });
+  });
+
+  it('knows the type when the dimensions are cut off', () => {
+    expect(readImageHeader(bytes([0xff, 0xd8, 0xff, 0xe1, 0xff, 0xff]))).toEqual({ mime: 'image/jpeg' });
+  });
+
+  it('returns null for other content', () => {
+    expect(readImageHeader(bytes('<!DOCTYPE html><html>'))).toBeNull();
+    expect(readImageHeader(new Uint8Array())).toBeNull();
+  });
+});
+
+describe('getImageFilename', () => {
+  it('decodes the last path segment', () => {
+    expect(getImageFilename('https://example.com/a/My%20Photo.jpg?w=500')).toBe('My Photo.jpg');
+  });
+
+  it('replaces characters not allowed in file names', () => {
+    expect(getImageFilename('https://example.com/a%3Ab%23c.png')).toBe('a-b-c.png');
+  });
+
+  it('adds an extension from the MIME type when missing', () => {
+    expect(getImageFilename('https://example.com/avatar', 'image/webp')).toBe('avatar.webp');
+    expect(getImageFilename('https://example.com/', 'image/png')).toBe('image.png');
+  });
+});
+
+const png = bytes([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], [0, 0, 0, 13], 'IHDR', [0, 0, 0, 1], [0, 0, 0, 1]);
+
+vi.mock('obsidian', async () => {
+  const mocks = await import('obsidian-test-mocks/obsidian');
+  return { ...mocks, requestUrl: async () => ({ status: 200, headers: {}, arrayBuffer: png.slice().buffer }) };
+});
+
+function mockFile(path: string, data: Uint8Array) {
+  const name = path.split('/').pop()!;
+  const dot = name.lastIndexOf('.');
+  return { path, name, basename: name.slice(0, dot), extension: name.slice(dot + 1), stat: { size: data.byteLength }, data };
+}
+
+function mockApp(files: ReturnType<typeof mockFile>[]) {
+  return {
+    vault: {
+      getFiles: () => files,
+      readBinary: async (file: { data: Uint8Array }) => file.data.slice().buffer,
+      createBinary: vi.fn(async (path: string, data: ArrayBuffer) => mockFile(path, new Uint8Array(data))),
+    },
+    fileManager: {
+      getAvailablePathForAttachment: async (name: string) => `attachments/${name.replace('.png', ' 1.png')}`,
+    },
+  } as any;
+}
+
+describe('findExistingImage', () => {
+  it('finds the same image saved under the name or a numbered copy', async () => {
+    const copy = mockFile('attachments/photo 2.png', png);
+    const app = mockApp([mockFile('attachments/photo.png', bytes('other')), mockFile('photo 2 old.png', png), copy]);
+    expect(await findExistingImage(app, 'photo.png', png.slice().buffer)).toBe(copy);
+  });
+
+  it('ignores files with other content', async () => {
+    const other = png.slice();
+    other[23] = 2;
+    expect(await findExistingImage(mockApp([mockFile('photo.png', other)]), 'photo.png', png.slice().buffer)).toBeNull();
+  });
+});
+
+describe('saveImageAttachment', () => {
+  it('reuses an image saved before', async () => {
+    const existing = mockFile('attachments/photo.png', png);
+    const app = mockApp([existing]);
+    expect(await saveImageAttachment(app, 'https://example.com/photo.png', 'Note.md')).toBe(existing);
+    expect(app.vault.createBinary).not.toHaveBeenCalled();
+  });
+
+  it('saves new images to the attachment folder', async () => {
+    const app = mockApp([mockFile('attachments/photo.png', bytes('other'))]);
+    const file = await saveImageAttachment(app, 'https://example.com/photo.png', 'Note.md');
+    expect(file.path).toBe('attachments/photo 1.png');
+  });
+});
+
+describe('formatFileSize', () => {
+  it.each([
+    [512, '512 B'],
+    [1536, '1.5 KB'],
+    [532 * 1024, '532 KB'],
+    [1.4 * 1024 * 1024, '1.4 MB'],
+  ])('formats %d bytes as %s', (size, formatted) => {
+    expect(formatFileSize(size)).toBe(formatted);
+  });
+});
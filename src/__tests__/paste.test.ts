@@ -1,4 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { EditorState, Transaction } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
 import { App, Editor, TFile, WorkspaceLeaf } from 'obsidian-test-mocks/obsidian';
 import SmartLinkFormatterPlugin from 'main';
 import { DEFAULT_SETTINGS } from 'settings';
@@ -35,6 +37,48 @@ function createEditor(content = ''): InstanceType<typeof Editor> {
   return editor;
 }
 
+type Position = { line: number; ch: number };
+
+/**
+ * An editor backed by a real CodeMirror view, like Obsidian's, so pastes take
+ * the grouped path of EditBatch.
+ */
+function createCodeMirrorEditor(content = '') {
+  const transactions: Transaction[] = [];
+  const view = new EditorView({
+    state: EditorState.create({ doc: content }),
+    dispatchTransactions: (trs, v) => {
+      transactions.push(...trs);
+      v.update(trs);
+    },
+  });
+  const doc = () => view.state.doc;
+  const toOffset = (pos: Position) => doc().line(pos.line + 1).from + pos.ch;
+  const toPos = (offset: number) => {
+    const line = doc().lineAt(offset);
+    return { line: line.number - 1, ch: offset - line.from };
+  };
+  const editor = {
+    cm: view,
+    getValue: () => doc().toString(),
+    getLine: (line: number) => doc().line(line + 1).text,
+    getCursor: (which?: string) => {
+      const range = view.state.selection.main;
+      return toPos(which === 'from' ? range.from : which === 'to' ? range.to : which === 'anchor' ? range.anchor : range.head);
+    },
+    somethingSelected: () => !view.state.selection.main.empty,
+    setSelection: (anchor: Position, head = anchor) => {
+      view.dispatch({ selection: { anchor: toOffset(anchor), head: toOffset(head) } });
+    },
+    replaceSelection: (text: string) => view.dispatch(view.state.replaceSelection(text)),
+    replaceRange: (text: string, from: Position, to = from) => {
+      view.dispatch({ changes: { from: toOffset(from), to: toOffset(to), insert: text } });
+    },
+    offsetToPos: toPos,
+  };
+  return { editor: editor as any, transactions };
+}
+
 function createClipboardEvent(text: string) {
   return {
     clipboardData: {
@@ -305,3 +349,50 @@ describe('paste integration', () => {
     expect(content).toBe('[Failed to fetch title](https://youtube.com/watch?v=ZZZZZZ_nonexistent_id)');
   }, 20000);
 });
+
+describe('paste integration (grouped edits)', () => {
+  beforeEach(() => {
+    vi.spyOn(plugin, 'resolveLink').mockImplementation(async (url: string) => `[${new URL(url).hostname}](${url})`);
+  });
+
+  it('multiple URLs: writes every link in one undoable transaction', async () => {
+    const { editor, transactions } = createCodeMirrorEditor();
+    const evt = createClipboardEvent('https://obsidian.md\nhttps://github.com/obsidianmd/obsidian-api');
+
+    await plugin.handlePaste(evt, editor);
+    await vi.waitFor(() => expect(editor.getValue()).not.toContain('Loading...'));
+
+    expect(editor.getValue()).toBe('[obsidian.md](https://obsidian.md)\n[github.com](https://github.com/obsidianmd/obsidian-api)');
+    const recorded = transactions.filter(tr => tr.docChanged && tr.annotation(Transaction.addToHistory) !== false);
+    expect(recorded.map(tr => tr.state.doc.toString())).toEqual([
+      'https://obsidian.md\nhttps://github.com/obsidianmd/obsidian-api',
+      '[obsidian.md](https://obsidian.md)\n[github.com](https://github.com/obsidianmd/obsidian-api)',
+    ]);
+  });
+
+  it('prose with URLs: keeps the surrounding text', async () => {
+    const { editor } = createCodeMirrorEditor('Notes: ');
+    editor.setSelection({ line: 0, ch: 7 });
+    const evt = createClipboardEvent('see https://obsidian.md and https://github.com');
+
+    await plugin.handlePaste(evt, editor);
+    await vi.waitFor(() => expect(editor.getValue()).not.toContain('Loading...'));
+
+    expect(editor.getValue()).toBe('Notes: see [obsidian.md](https://obsidian.md) and [github.com](https://github.com)');
+  });
+
+  it('failed links: written with the failure mode in the same transaction', async () => {
+    plugin.settings.failureMode = 'revert' as any;
+    vi.spyOn(plugin, 'resolveLink').mockImplementation(async (url: string) => {
+      if (url.includes('github')) throw new Error('offline');
+      return `[${new URL(url).hostname}](${url})`;
+    });
+    const { editor } = createCodeMirrorEditor();
+    const evt = createClipboardEvent('https://obsidian.md\nhttps://github.com');
+
+    await plugin.handlePaste(evt, editor);
+    await vi.waitFor(() => expect(editor.getValue()).not.toContain('Loading...'));
+
+    expect(editor.getValue()).toBe('[obsidian.md](https://obsidian.md)\nhttps://github.com');
+  });
+});
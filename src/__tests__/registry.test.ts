@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { Client } from 'clients';
+import { ClientPriority, ClientRegistry } from 'registry';
+
+class TestClient extends Client {
+  displayName = 'Test';
+  defaultFormat = '[{title}]';
+
+  constructor(readonly name: string) {
+    super();
+  }
+
+  getAvailableVariables() {
+    return ['title', 'url'];
+  }
+
+  async fetchMetadata() {
+    return { title: this.name };
+  }
+
+  matches(url: string) {
+    return url.startsWith('https://wiki.example.com/');
+  }
+}
+
+function names(registry: ClientRegistry) {
+  return registry.list().map(c => c.name);
+}
+
+describe('ClientRegistry', () => {
+  it('tries built-in clients before oEmbed and the default client', () => {
+    const list = names(new ClientRegistry());
+    expect(list[0]).toBe('youtube');
+    expect(list.slice(-2)).toEqual(['oembed', 'default']);
+  });
+
+  it('puts registered clients ahead of the built-in ones by default', () => {
+    const registry = new ClientRegistry();
+    registry.register(new TestClient('wiki'));
+    expect(names(registry)[0]).toBe('wiki');
+  });
+
+  it('orders by priority and keeps registration order for equal priorities', () => {
+    const registry = new ClientRegistry();
+    registry.register(new TestClient('low'), ClientPriority.Discovery + 1);
+    registry.register(new TestClient('first'), 50);
+    registry.register(new TestClient('second'), 50);
+    registry.setCustomClients([new TestClient('custom')]);
+
+    const list = names(registry);
+    expect(list.slice(0, 2)).toEqual(['first', 'second']);
+    expect(list.slice(-4)).toEqual(['custom', 'low', 'oembed', 'default']);
+  });
+
+  it('rejects duplicate names', () => {
+    const registry = new ClientRegistry();
+    expect(() => registry.register(new TestClient('github'))).toThrow('already registered');
+  });
+
+  it('unregisters by name or through the returned function', () => {
+    const registry = new ClientRegistry();
+    const dispose = registry.register(new TestClient('a'));
+    registry.register(new TestClient('b'));
+
+    dispose();
+    expect(registry.unregister('b')).toBe(true);
+    expect(names(registry)).not.toContain('a');
+    expect(names(registry)).not.toContain('b');
+  });
+
+  it('does not unregister built-in clients', () => {
+    const registry = new ClientRegistry();
+    expect(registry.unregister('youtube')).toBe(false);
+    expect(names(registry)).toContain('youtube');
+  });
+});
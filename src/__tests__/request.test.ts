@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { CancelledError, raceSignal, throwIfCancelled } from 'request';
+
+describe('raceSignal', () => {
+  it('resolves with the promise result when not aborted', async () => {
+    const controller = new AbortController();
+    await expect(raceSignal(Promise.resolve('ok'), controller.signal)).resolves.toBe('ok');
+  });
+
+  it('rejects with CancelledError as soon as the signal aborts', async () => {
+    const controller = new AbortController();
+    const never = new Promise<string>(() => {});
+    const raced = raceSignal(never, controller.signal);
+    controller.abort();
+    await expect(raced).rejects.toBeInstanceOf(CancelledError);
+  });
+
+  it('rejects immediately for an already aborted signal', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(raceSignal(Promise.resolve('ok'), controller.signal)).rejects.toBeInstanceOf(CancelledError);
+  });
+
+  it('passes through without a signal', async () => {
+    await expect(raceSignal(Promise.resolve(1))).resolves.toBe(1);
+  });
+});
+
+describe('throwIfCancelled', () => {
+  it('throws only for aborted signals', () => {
+    const controller = new AbortController();
+    expect(() => throwIfCancelled(controller.signal)).not.toThrow();
+    controller.abort();
+    expect(() => throwIfCancelled(controller.signal)).toThrow(CancelledError);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RetryQueue, findInactivePlaceholders, generateInactivePlaceholder } from 'retry';
+import { mockPlugin } from './storage-plugin';
+
+describe('findInactivePlaceholders', () => {
+  it('finds inactive spans with their id and URL', () => {
+    const span = generateInactivePlaceholder('link-placeholder-1_2', 'https://example.com');
+    const content = `Before ${span} after`;
+    expect(findInactivePlaceholders(content)).toEqual([
+      { id: 'link-placeholder-1_2', url: 'https://example.com', text: span },
+    ]);
+  });
+
+  it('finds multiple spans across lines', () => {
+    const content = [
+      generateInactivePlaceholder('link-placeholder-1', 'https://a.com'),
+      'text',
+      generateInactivePlaceholder('link-placeholder-2', 'https://b.com'),
+    ].join('\n');
+    expect(findInactivePlaceholders(content).map(p => p.url)).toEqual(['https://a.com', 'https://b.com']);
+  });
+
+  it('ignores active loading placeholders', () => {
+    const content = '<span class="link-loading" id="link-placeholder-1" url="https://a.com">Loading...</span>';
+    expect(findInactivePlaceholders(content)).toHaveLength(0);
+  });
+});
+
+describe('RetryQueue', () => {
+  let files: Record<string, string>;
+  let queue: RetryQueue;
+
+  beforeEach(async () => {
+    files = {};
+    queue = new RetryQueue(mockPlugin(files));
+    await queue.load();
+  });
+
+  it('records failures with a retry count and the last error', () => {
+    queue.enqueue('link-placeholder-1', 'https://a.com', 'note.md');
+    queue.recordFailure('link-placeholder-1', new Error('Fetch timeout'));
+    queue.recordFailure('link-placeholder-1', new Error('Not found'));
+
+    const entry = queue.get('link-placeholder-1')!;
+    expect(entry.attempts).toBe(2);
+    expect(entry.lastError).toBe('Not found');
+  });
+
+  it('keeps history when a link is enqueued again', () => {
+    queue.enqueue('link-placeholder-1', 'https://a.com', 'note.md');
+    queue.recordFailure('link-placeholder-1', 'offline');
+    queue.enqueue('link-placeholder-1', 'https://a.com', 'note.md');
+    expect(queue.get('link-placeholder-1')!.attempts).toBe(1);
+  });
+
+  it('drops entries whose placeholders are gone from scanned notes', () => {
+    queue.enqueue('link-placeholder-1', 'https://a.com', 'a.md');
+    queue.enqueue('link-placeholder-2', 'https://b.com', 'b.md');
+    queue.reconcile(new Set(['a.md']), new Set());
+    expect(queue.get('link-placeholder-1')).toBeUndefined();
+    expect(queue.get('link-placeholder-2')).toBeDefined();
+  });
+
+  it('persists entries across instances', async () => {
+    queue.enqueue('link-placeholder-1', 'https://a.com', 'note.md');
+    await queue.save();
+
+    const reloaded = new RetryQueue(mockPlugin(files));
+    await reloaded.load();
+    expect(reloaded.size).toBe(1);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { RequestScheduler, getRequestHost } from 'scheduler';
+import { CancelledError } from 'request';
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => { resolve = r; });
+  return { promise, resolve };
+}
+
+const flush = () => new Promise(r => setTimeout(r, 0));
+
+describe('getRequestHost', () => {
+  it('strips www', () => {
+    expect(getRequestHost('https://www.reddit.com/r/test')).toBe('reddit.com');
+  });
+
+  it('keeps other subdomains', () => {
+    expect(getRequestHost('https://music.youtube.com/watch?v=abc')).toBe('music.youtube.com');
+  });
+});
+
+describe('RequestScheduler', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('caps requests in flight across all hosts', async () => {
+    const scheduler = new RequestScheduler(() => ({ maxConcurrent: 2, maxPerHost: 10, hostSpacingMs: 0 }));
+    const gates = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+
+    const hosts = ['https://a.com', 'https://b.com', 'https://c.com'];
+    const tasks = gates.map((gate, i) => scheduler.schedule(hosts[i], () => {
+      started.push(i);
+      return gate.promise;
+    }));
+
+    await flush();
+    expect(started).toEqual([0, 1]);
+
+    gates[0].resolve();
+    await flush();
+    expect(started).toEqual([0, 1, 2]);
+
+    gates[1].resolve();
+    gates[2].resolve();
+    await Promise.all(tasks);
+  });
+
+  it('caps requests in flight to a single host', async () => {
+    const scheduler = new RequestScheduler(() => ({ maxConcurrent: 10, maxPerHost: 1, hostSpacingMs: 0 }));
+    const gate = deferred();
+    const started: string[] = [];
+
+    const first = scheduler.schedule('https://a.com/1', () => { started.push('a1'); return gate.promise; });
+    const second = scheduler.schedule('https://a.com/2', async () => { started.push('a2'); });
+    const other = scheduler.schedule('https://b.com/1', async () => { started.push('b1'); });
+
+    await flush();
+    expect(started).toEqual(['a1', 'b1']);
+
+    gate.resolve();
+    await Promise.all([first, second, other]);
+    expect(started).toEqual(['a1', 'b1', 'a2']);
+  });
+
+  it('spaces out requests to the same host', async () => {
+    vi.useFakeTimers();
+    const scheduler = new RequestScheduler(() => ({ maxConcurrent: 10, maxPerHost: 10, hostSpacingMs: 1000 }));
+    const started: string[] = [];
+
+    void scheduler.schedule('https://a.com/1', async () => { started.push('a1'); });
+    void scheduler.schedule('https://a.com/2', async () => { started.push('a2'); });
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual(['a1']);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(started).toEqual(['a1', 'a2']);
+  });
+
+  it('wakes up early for a host queued behind a longer wait', async () => {
+    vi.useFakeTimers();
+    const scheduler = new RequestScheduler(() => ({ maxConcurrent: 10, maxPerHost: 10, hostSpacingMs: 1000 }));
+    const started: string[] = [];
+
+    void scheduler.schedule('https://b.com/1', async () => { started.push('b1'); });
+    await vi.advanceTimersByTimeAsync(900);
+    void scheduler.schedule('https://a.com/1', async () => { started.push('a1'); });
+    await vi.advanceTimersByTimeAsync(50);
+
+    void scheduler.schedule('https://a.com/2', async () => { started.push('a2'); });
+    void scheduler.schedule('https://b.com/2', async () => { started.push('b2'); });
+
+    await vi.advanceTimersByTimeAsync(50);
+    expect(started).toEqual(['b1', 'a1', 'b2']);
+
+    await vi.advanceTimersByTimeAsync(900);
+    expect(started).toEqual(['b1', 'a1', 'b2', 'a2']);
+  });
+
+  it('propagates task errors and frees the slot', async () => {
+    const scheduler = new RequestScheduler(() => ({ maxConcurrent: 1, maxPerHost: 1, hostSpacingMs: 0 }));
+
+    await expect(scheduler.schedule('https://a.com', async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    await expect(scheduler.schedule('https://a.com', async () => 'ok')).resolves.toBe('ok');
+  });
+
+  it('drops queued tasks when their signal aborts', async () => {
+    const scheduler = new RequestScheduler(() => ({ maxConcurrent: 1, maxPerHost: 1, hostSpacingMs: 0 }));
+    const gate = deferred();
+    const controller = new AbortController();
+    let ranQueued = false;
+
+    const running = scheduler.schedule('https://a.com/1', () => gate.promise);
+    const queued = scheduler.schedule('https://a.com/2', async () => { ranQueued = true; }, controller.signal);
+    expect(scheduler.pending).toBe(1);
+
+    controller.abort();
+    await expect(queued).rejects.toBeInstanceOf(CancelledError);
+    expect(scheduler.pending).toBe(0);
+
+    gate.resolve();
+    await running;
+    expect(ranQueued).toBe(false);
+  });
+});
@@ -1,7 +1,7 @@
 import { describe, it, expect } from 'vitest';
-import { CLIENTS, formatTemplate, wrapInMarkdownLink } from 'clients';
+import { CLIENTS, buildBibtex, formatTemplate, wrapInMarkdownLink } from 'clients';
 import { applyTitleReplacements } from 'utils';
-import { DEFAULT_SETTINGS, LinkFormatterSettings } from 'settings';
+import { DEFAULT_SETTINGS, LinkFormatterSettings, withDefaultSettings } from 'settings';
 import { FailureMode } from 'types/failure-mode';
 
 function mockPlugin(overrides: Partial<LinkFormatterSettings> = {}) {
@@ -48,6 +48,11 @@ describe('formatTemplate', () => {
     const meta = { upload_date: '2024-03-15' };
     expect(formatTemplate('{upload_date|MMM D, YYYY}', meta, url)).toBe('Mar 15, 2024');
   });
+
+  it('handles meta tag variables with colons', () => {
+    const meta = { title: 'Post', 'og:site_name': 'Blog', 'article:published_time': '2024-03-15T10:00:00Z' };
+    expect(formatTemplate('{title} ({og:site_name}, {article:published_time|YYYY})', meta, url)).toBe('Post (Blog, 2024)');
+  });
 });
 
 // -- wrapInMarkdownLink --
@@ -76,6 +81,42 @@ describe('wrapInMarkdownLink', () => {
   });
 });
 
+// -- Values with braces --
+
+describe('formatTemplate with braces in values', () => {
+  const url = 'https://arxiv.org/abs/1706.03762';
+  const bibtex = buildBibtex({
+    type: 'misc',
+    title: 'Attention Is All You Need',
+    authors: [{ given: 'Ashish', family: 'Vaswani' }],
+    year: '2017',
+    arxivId: '1706.03762',
+    url,
+  });
+
+  it('keeps braces in inserted values', () => {
+    expect(formatTemplate('{bibtex}', { bibtex }, url)).toBe(bibtex);
+    expect(formatTemplate('{title}', { title: 'Set {x}' }, url)).toBe('Set {x}');
+  });
+
+  it('keeps colons in values inserted into conditional branches', () => {
+    expect(formatTemplate('{title?{title}:none}', { title: 'Rust: a language' }, url)).toBe('Rust: a language');
+  });
+
+  it('renders the README BibTeX format through the academic client', () => {
+    const academic = CLIENTS.find(c => c.name === 'academic')!;
+    const format = '[{title}] — {authors} ({year})\n```bibtex\n{bibtex}\n```';
+    const result = academic.format(
+      { title: 'Attention Is All You Need', authors: 'Vaswani', year: '2017', bibtex },
+      url,
+      mockPlugin({ clientFormats: { academic: format } })
+    );
+    expect(result).toBe(`[Attention Is All You Need](${url}) — Vaswani (2017)\n\`\`\`bibtex\n${bibtex}\n\`\`\``);
+    expect(result).toContain('title = {{Attention Is All You Need}}');
+    expect(result).toContain('author = {Vaswani, Ashish}');
+  });
+});
+
 // -- Client format with settings --
 
 describe('client format with settings', () => {
@@ -210,6 +251,26 @@ describe('FailureMode', () => {
 
 // -- Blacklist --
 
+describe('withDefaultSettings', () => {
+  it('keeps saved values and fills in the rest', () => {
+    const settings = withDefaultSettings({ timeoutSeconds: 30 });
+    expect(settings.timeoutSeconds).toBe(30);
+    expect(settings.maxConcurrentRequests).toBe(DEFAULT_SETTINGS.maxConcurrentRequests);
+  });
+
+  it('does not share the default lists', () => {
+    const settings = withDefaultSettings(null);
+    settings.forgeInstances.push({ type: 'gitlab', baseUrl: '' });
+    settings.customClients.push({} as any);
+    settings.clientFormats.default = '[{title}]';
+
+    expect(DEFAULT_SETTINGS.forgeInstances).toEqual([]);
+    expect(DEFAULT_SETTINGS.customClients).toEqual([]);
+    expect(DEFAULT_SETTINGS.clientFormats).toEqual({});
+    expect(withDefaultSettings(null).forgeInstances).toEqual([]);
+  });
+});
+
 describe('blacklist', () => {
   // Test the isBlacklisted logic directly by reimporting from main
   // Since isBlacklisted is private, we test the behavior through the settings interface
@@ -0,0 +1,19 @@
+/**
+ * A plugin whose adapter reads and writes the given in-memory files,
+ * for testing what is stored next to data.json.
+ */
+export function mockPlugin(files: Record<string, string> = {}) {
+  return {
+    manifest: { id: 'smart-link-formatter', dir: '.obsidian/plugins/smart-link-formatter' },
+    app: {
+      vault: {
+        configDir: '.obsidian',
+        adapter: {
+          exists: async (path: string) => path in files,
+          read: async (path: string) => files[path],
+          write: async (path: string, data: string) => { files[path] = data; },
+        },
+      },
+    },
+  } as any;
+}
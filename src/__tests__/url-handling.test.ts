@@ -1,5 +1,15 @@
-import { describe, it, expect, vi } from 'vitest';
-import { CLIENTS } from 'clients';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  CLIENTS,
+  ClientSettings,
+  buildBibtex,
+  createClients,
+  cleanRepositoryUrl,
+  findYouTubeChapter,
+  parseIsoDuration,
+  parseYouTubeChapters,
+  UnsupportedLinkError,
+} from 'clients';
 import { findUnformattedUrls, normalizeUrl } from 'utils';
 
 vi.mock('obsidian', async () => {
@@ -54,9 +64,13 @@ describe('normalizeUrl', () => {
 
 // -- Client matching (uses real CLIENTS + real normalizeUrl) --
 
-function matchClient(url: string) {
+function matchClient(url: string, clients = CLIENTS) {
   const normalized = normalizeUrl(url);
-  return CLIENTS.find(c => c.matches(normalized))?.name ?? null;
+  return clients.find(c => c.matches(normalized))?.name ?? null;
+}
+
+function clientsWith(settings: Partial<ClientSettings>) {
+  return createClients(() => ({ forgeInstances: [], mastodonInstances: '', ...settings }));
 }
 
 describe('client matching', () => {
@@ -73,6 +87,22 @@ describe('client matching', () => {
     });
   });
 
+  describe('YouTube playlists, channels, Shorts and live streams', () => {
+    it.each([
+      ['https://www.youtube.com/playlist?list=PL123', 'youtube-playlist'],
+      ['https://youtube.com/@LinusTechTips', 'youtube-channel'],
+      ['https://youtube.com/@LinusTechTips/videos', 'youtube-channel'],
+      ['https://youtube.com/channel/UCXuqSBlHAE6Xw-yeJA0Tunw', 'youtube-channel'],
+      ['https://youtube.com/c/LinusTechTips/', 'youtube-channel'],
+      ['https://youtube.com/user/LinusTechTips?sub_confirmation=1', 'youtube-channel'],
+      ['https://youtube.com/@LinusTechTips/live', 'youtube-live'],
+      ['https://youtube.com/shorts/abc123', 'youtube-short'],
+      ['https://youtube.com/live/abc123', 'youtube-live'],
+    ])('matches %s as %s', (url, client) => {
+      expect(matchClient(url)).toBe(client);
+    });
+  });
+
   describe('YouTube Music', () => {
     it.each([
       'https://music.youtube.com/watch?v=abc',
@@ -88,6 +118,34 @@ describe('client matching', () => {
     });
   });
 
+  describe('Music services', () => {
+    it.each([
+      ['https://open.spotify.com/track/4uLU6hMCjMI75M1A2tKUQC', 'spotify'],
+      ['https://open.spotify.com/intl-de/album/1DFixLWuPkv3KT3TnV35m3', 'spotify'],
+      ['https://open.spotify.com/playlist/37i9dQZF1DXcBWIGoYBM5M?si=abc', 'spotify'],
+      ['https://soundcloud.com/artist/some-track', 'soundcloud'],
+      ['https://soundcloud.com/artist/sets/some-album', 'soundcloud'],
+      ['https://on.soundcloud.com/AbC123', 'soundcloud'],
+      ['https://artist.bandcamp.com/track/some-track', 'bandcamp'],
+      ['https://artist.bandcamp.com/album/some-album', 'bandcamp'],
+      ['https://music.apple.com/us/album/some-album/1440857781?i=1440857786', 'apple-music'],
+      ['https://music.apple.com/gb/song/some-song/1440857786', 'apple-music'],
+      ['https://music.apple.com/us/playlist/todays-hits/pl.f4d106fed2bd41149aaacabb233eb5eb', 'apple-music'],
+    ])('matches %s as %s', (url, client) => {
+      expect(matchClient(url)).toBe(client);
+    });
+
+    it.each([
+      'https://open.spotify.com/artist/0OdUWJ0sBjDrqHygGUXeCF',
+      'https://soundcloud.com/artist',
+      'https://soundcloud.com/artist/likes',
+      'https://soundcloud.com/discover/sets/charts',
+      'https://artist.bandcamp.com/music',
+    ])('does not match %s', (url) => {
+      expect(matchClient(url)).not.toMatch(/spotify|soundcloud|bandcamp|apple-music/);
+    });
+  });
+
   describe('Twitter/X', () => {
     it.each([
       'https://x.com/user/status/123456',
@@ -105,9 +163,28 @@ describe('client matching', () => {
       'https://reddit.com/r/test/comments/abc/def/',
       'https://www.reddit.com/r/test/comments/abc/def/',
       'http://reddit.com/r/test/comments/abc/def/',
+      'https://old.reddit.com/r/test/comments/abc/def/',
+      'https://reddit.com/r/test/comments/abc/def/xyz/?context=3',
+      'https://reddit.com/r/test/comments/abc/comment/xyz/',
+      'https://reddit.com/comments/abc',
+      'https://redd.it/abc',
+      'https://reddit.com/r/test/s/AbC123xyz',
     ])('matches %s', (url) => {
       expect(matchClient(url)).toBe('reddit');
     });
+
+    it.each([
+      ['https://reddit.com/r/ObsidianMD', 'reddit-subreddit'],
+      ['https://old.reddit.com/r/ObsidianMD/top/?t=week', 'reddit-subreddit'],
+      ['https://reddit.com/u/spez', 'reddit-user'],
+      ['https://reddit.com/user/spez/submitted/', 'reddit-user'],
+    ])('matches %s as %s', (url, client) => {
+      expect(matchClient(url)).toBe(client);
+    });
+
+    it('does not match subreddit wiki pages', () => {
+      expect(matchClient('https://reddit.com/r/ObsidianMD/wiki/index')).toBe('default');
+    });
   });
 
   describe('GitHub', () => {
@@ -119,6 +196,181 @@ describe('client matching', () => {
     ])('matches %s', (url) => {
       expect(matchClient(url)).toBe('github');
     });
+
+    it.each([
+      ['https://github.com/user/repo/issues/12', 'github-issue'],
+      ['https://github.com/user/repo/pull/34', 'github-pull'],
+      ['https://github.com/user/repo/pull/34/files', 'github-pull'],
+      ['https://github.com/user/repo/commit/0123abc', 'github-commit'],
+      ['https://github.com/user/repo/pull/34/commits/0123abcdef', 'github-commit'],
+      ['https://github.com/user/repo/releases/tag/v1.2.0', 'github-release'],
+      ['https://github.com/user/my.repo/blob/main/src/index.ts#L10-L20', 'github-file'],
+    ])('matches %s as %s', (url, client) => {
+      expect(matchClient(url)).toBe(client);
+    });
+  });
+
+  describe('Hacker News', () => {
+    it.each([
+      'https://news.ycombinator.com/item?id=8863',
+      'http://news.ycombinator.com/item?id=8863',
+    ])('matches %s', (url) => {
+      expect(matchClient(url)).toBe('hackernews');
+    });
+
+    it('does not match other pages', () => {
+      expect(matchClient('https://news.ycombinator.com/newest')).toBe('default');
+    });
+  });
+
+  describe('StackExchange', () => {
+    it.each([
+      'https://stackoverflow.com/questions/11227809/why-is-processing-a-sorted-array-faster',
+      'https://stackoverflow.com/questions/11227809/why-is-processing-a-sorted-array-faster/11227902#11227902',
+      'https://stackoverflow.com/q/11227809',
+      'https://stackoverflow.com/a/11227902/1234',
+      'https://unix.stackexchange.com/questions/4126/what-is-the-exact-difference',
+      'https://meta.stackoverflow.com/questions/251361',
+      'https://superuser.com/questions/1/title',
+      'https://ru.stackoverflow.com/questions/1/title',
+    ])('matches %s', (url) => {
+      expect(matchClient(url)).toBe('stackexchange');
+    });
+
+    it('does not match tag or user pages', () => {
+      expect(matchClient('https://stackoverflow.com/questions/tagged/typescript')).toBe('default');
+      expect(matchClient('https://stackoverflow.com/users/1/jeff')).toBe('default');
+    });
+  });
+
+  describe('Wikipedia', () => {
+    it.each([
+      'https://en.wikipedia.org/wiki/Rust_(programming_language)',
+      'https://en.wikipedia.org/wiki/Rust#History',
+      'https://en.m.wikipedia.org/wiki/Rust',
+      'https://de.wikipedia.org/wiki/Caf%C3%A9',
+    ])('matches %s', (url) => {
+      expect(matchClient(url)).toBe('wikipedia');
+    });
+
+    it('does not match non-article pages', () => {
+      expect(matchClient('https://en.wikipedia.org/w/index.php?title=Rust&action=history')).toBe('default');
+    });
+  });
+
+  describe('arXiv and DOI', () => {
+    it.each([
+      'https://arxiv.org/abs/2301.12345',
+      'https://arxiv.org/abs/2301.12345v2',
+      'https://arxiv.org/pdf/2301.12345v2.pdf',
+      'https://arxiv.org/pdf/2301.12345',
+      'https://arxiv.org/abs/hep-th/9901001',
+      'https://doi.org/10.1038/nature14539',
+      'https://dx.doi.org/10.1145/3292500.3330701',
+    ])('matches %s', (url) => {
+      expect(matchClient(url)).toBe('academic');
+    });
+
+    it('does not match arXiv listings', () => {
+      expect(matchClient('https://arxiv.org/list/cs.AI/recent')).toBe('default');
+    });
+  });
+
+  describe('Mastodon', () => {
+    it.each([
+      'https://mastodon.social/@Gargron/109932728429013409',
+      'https://fosstodon.org/@user@mastodon.social/110000000000000000',
+      'https://any.instance.example/@someone/1234567',
+    ])('matches %s by its shape', (url) => {
+      expect(matchClient(url)).toBe('mastodon');
+    });
+
+    it('does not match profiles', () => {
+      expect(matchClient('https://mastodon.social/@Gargron')).toBe('default');
+    });
+
+    it('matches other post shapes on configured instances', () => {
+      expect(matchClient('https://pleroma.example/notice/AbC123xyz')).toBe('default');
+
+      const clients = clientsWith({ mastodonInstances: ' https://pleroma.example/ , gts.example' });
+      expect(matchClient('https://pleroma.example/notice/AbC123xyz', clients)).toBe('mastodon');
+      expect(matchClient('https://gts.example/@user/statuses/01H2ABC', clients)).toBe('mastodon');
+      expect(matchClient('https://gts.example/users/user/statuses/01H2ABC', clients)).toBe('mastodon');
+    });
+  });
+
+  describe('Bluesky', () => {
+    it.each([
+      'https://bsky.app/profile/jay.bsky.team/post/3juflvqkmc72b',
+      'https://bsky.app/profile/did:plc:oky5czdrnfjpqslsw2a5iclo/post/3juflvqkmc72b',
+    ])('matches %s', (url) => {
+      expect(matchClient(url)).toBe('bluesky');
+    });
+
+    it('does not match profiles', () => {
+      expect(matchClient('https://bsky.app/profile/jay.bsky.team')).toBe('default');
+    });
+  });
+
+  describe('Package registries', () => {
+    it.each([
+      ['https://www.npmjs.com/package/react', 'npm'],
+      ['https://www.npmjs.com/package/@types/node/v/20.1.0', 'npm'],
+      ['https://pypi.org/project/requests/', 'pypi'],
+      ['https://pypi.org/project/requests/2.31.0/', 'pypi'],
+      ['https://crates.io/crates/serde', 'crates'],
+      ['https://crates.io/crates/serde/1.0.190', 'crates'],
+    ])('matches %s as %s', (url, client) => {
+      expect(matchClient(url)).toBe(client);
+    });
+  });
+
+  describe('GitLab and Gitea', () => {
+    it.each([
+      ['https://gitlab.com/group/project', 'gitlab'],
+      ['https://gitlab.com/group/subgroup/project', 'gitlab'],
+      ['https://gitlab.com/group/subgroup/project/-/merge_requests/12', 'gitlab-merge-request'],
+      ['https://gitlab.com/group/project/-/issues/3', 'gitlab-issue'],
+      ['https://codeberg.org/forgejo/forgejo', 'gitea'],
+      ['https://codeberg.org/forgejo/forgejo/pulls/7', 'gitea-pull'],
+      ['https://codeberg.org/forgejo/forgejo/issues/8', 'gitea-issue'],
+    ])('matches %s as %s', (url, client) => {
+      expect(matchClient(url)).toBe(client);
+    });
+
+    it('does not match other pages of the public hosts', () => {
+      expect(matchClient('https://gitlab.com/group/project/-/blob/main/README.md')).toBe('default');
+      expect(matchClient('https://gitlab.com/explore/projects')).toBe('default');
+      expect(matchClient('https://codeberg.org/explore/repos')).toBe('default');
+    });
+
+    it('matches self-hosted instances from the settings', () => {
+      expect(matchClient('https://git.example.com/team/app/-/issues/1')).toBe('default');
+
+      const clients = clientsWith({
+        forgeInstances: [
+          { type: 'gitlab', baseUrl: 'http://www.git.example.com/' },
+          { type: 'gitea', baseUrl: 'https://example.org/forgejo' },
+        ],
+      });
+      expect(matchClient('https://git.example.com/team/app/-/issues/1', clients)).toBe('gitlab-issue');
+      expect(matchClient('https://example.org/forgejo/team/app/pulls/2', clients)).toBe('gitea-pull');
+      expect(matchClient('https://example.org/team/app/pulls/2', clients)).toBe('default');
+    });
+
+    it('hands group pages the API does not know to the next client', async () => {
+      const url = 'https://gitlab.com/gitlab-org/ci-cd';
+      expect(matchClient(url)).toBe('gitlab');
+
+      const fetch = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('{"message":"404 Project Not Found"}', { status: 404 }));
+      try {
+        const gitlab = CLIENTS.find(c => c.name === 'gitlab')!;
+        await expect(gitlab.fetchMetadata(url)).rejects.toBeInstanceOf(UnsupportedLinkError);
+        expect(fetch).toHaveBeenCalledWith('https://gitlab.com/api/v4/projects/gitlab-org%2Fci-cd', expect.anything());
+      } finally {
+        fetch.mockRestore();
+      }
+    });
   });
 
   describe('Image', () => {
@@ -131,10 +383,34 @@ describe('client matching', () => {
     });
   });
 
-  describe('Default fallback', () => {
-    it('matches any URL not caught by other clients', () => {
+  describe('oEmbed and default fallback', () => {
+    it('leaves URLs without a known oEmbed endpoint to the default client', () => {
       expect(matchClient('https://obsidian.md')).toBe('default');
     });
+
+    it('keeps the default client as the last match', () => {
+      const normalized = normalizeUrl('https://vimeo.com/76979871');
+      const names = CLIENTS.filter(c => c.matches(normalized)).map(c => c.name);
+      expect(names).toEqual(['oembed', 'default']);
+    });
+  });
+
+  describe('oEmbed known providers', () => {
+    const oembed = CLIENTS.find(c => c.name === 'oembed') as any;
+
+    it('builds the endpoint for a known provider without discovery', () => {
+      expect(oembed.getKnownEndpoint('https://www.vimeo.com/76979871'))
+        .toBe('https://vimeo.com/api/oembed.json?url=https%3A%2F%2Fwww.vimeo.com%2F76979871');
+    });
+
+    it('appends to endpoints that already have a query', () => {
+      expect(oembed.getKnownEndpoint('https://soundcloud.com/artist/track'))
+        .toBe('https://soundcloud.com/oembed?format=json&url=https%3A%2F%2Fsoundcloud.com%2Fartist%2Ftrack');
+    });
+
+    it('returns null for unknown sites', () => {
+      expect(oembed.getKnownEndpoint('https://obsidian.md')).toBeNull();
+    });
   });
 
   describe('edge cases', () => {
@@ -143,19 +419,23 @@ describe('client matching', () => {
     });
 
     it('YouTube playlist URL', () => {
-      expect(matchClient('https://youtube.com/playlist?list=PLrAXtmErZgOeiKm4sgNOknGvNjby9efdf')).toBe('youtube');
+      expect(matchClient('https://youtube.com/playlist?list=PLrAXtmErZgOeiKm4sgNOknGvNjby9efdf')).toBe('youtube-playlist');
     });
 
-    it('GitHub subpage (issues, PRs) falls back to default', () => {
-      expect(matchClient('https://github.com/user/repo/issues/1')).toBe('default');
+    it('YouTube watch URL inside a playlist stays a video', () => {
+      expect(matchClient('https://youtube.com/watch?v=abc&list=PLrAXtmErZgOeiKm4sgNOknGvNjby9efdf')).toBe('youtube');
+    });
+
+    it('GitHub subpage without a dedicated client falls back to default', () => {
+      expect(matchClient('https://github.com/user/repo/actions')).toBe('default');
     });
 
     it('GitHub user profile falls back to default', () => {
       expect(matchClient('https://github.com/obsidianmd')).toBe('default');
     });
 
-    it('Reddit old.reddit.com falls back to default', () => {
-      expect(matchClient('https://old.reddit.com/r/test/comments/abc/def/')).toBe('default');
+    it('Reddit old.reddit.com uses the Reddit client', () => {
+      expect(matchClient('https://old.reddit.com/r/test/comments/abc/def/')).toBe('reddit');
     });
 
     it('m.youtube.com falls back to default (not matched)', () => {
@@ -176,6 +456,306 @@ describe('client matching', () => {
   });
 });
 
+describe('Wikipedia sections', () => {
+  const wikipedia = CLIENTS.find(c => c.name === 'wikipedia') as any;
+
+  it.each([
+    ['History', 'History'],
+    ['Early_history', 'Early history'],
+    ['Caf%C3%A9_culture', 'Café culture'],
+    ['Caf.C3.A9_culture', 'Café culture'],
+    ['Version_1.0A', 'Version 1.0A'],
+  ])('decodes %s as %s', (fragment, section) => {
+    expect(wikipedia.decodeSection(fragment)).toBe(section);
+  });
+});
+
+describe('oEmbed discovery', () => {
+  const url = 'https://blog.example.com/2024/hello/';
+  const endpoint = 'https://blog.example.com/wp-json/oembed/1.0/embed?url=https%3A%2F%2Fblog.example.com%2F2024%2Fhello%2F';
+  const plugin = { settings: { clientFormats: { default: '[{title}]{author_name? by {author_name}:}' }, titleReplacements: [] } } as any;
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function mockSite(oembed: Response) {
+    const page = `<html><head><meta property="og:title" content="Hello world – My Blog">
+      <link rel="alternate" type="application/json+oembed" href="${endpoint}"></head><body></body></html>`;
+    return vi.spyOn(globalThis, 'fetch').mockImplementation(async (input: any) => String(input).startsWith(endpoint)
+      ? oembed
+      : new Response(page, { headers: { 'content-type': 'text/html' } }));
+  }
+
+  it('formats a page with the oEmbed endpoint it advertises', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const fetch = mockSite(new Response(JSON.stringify({ title: 'Hello world', author_name: 'Jane', provider_name: 'My Blog' })));
+    const client = CLIENTS.find(c => c.name === matchClient(url))!;
+
+    const metadata = await client.fetchMetadata(url);
+    expect(metadata).toMatchObject({ title: 'Hello world', author_name: 'Jane', provider_name: 'My Blog' });
+    expect(client.format(metadata, url, plugin)).toBe(`[Hello world](${url}) by Jane`);
+    expect(fetch).toHaveBeenCalledWith(endpoint, expect.anything());
+  });
+
+  it('keeps the page title when the endpoint fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockSite(new Response('Not found', { status: 404 }));
+    const client = CLIENTS.find(c => c.name === 'default')!;
+
+    const metadata = await client.fetchMetadata(url);
+    expect(metadata.title).toBe('Hello world – My Blog');
+    expect(metadata.author_name).toBeUndefined();
+  });
+});
+
+describe('Twitter strategies', () => {
+  const twitter = CLIENTS.find(c => c.name === 'twitter') as any;
+  const url = 'https://x.com/alice/status/3';
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('falls back to the next strategy when one fails', async () => {
+    vi.spyOn(twitter, 'fetchFromGraphql').mockRejectedValue(new Error('guest token rejected'));
+    vi.spyOn(twitter, 'fetchFromEmbed').mockResolvedValue({
+      text: 'Hello', author: 'alice', likes: 5, mediaCount: 2, quotedText: 'Quoted', quotedAuthor: 'bob',
+    });
+    const oembed = vi.spyOn(twitter, 'fetchFromOEmbed');
+
+    const metadata = await twitter.fetchMetadata(url);
+    expect(metadata).toMatchObject({
+      text: 'Hello', author: 'alice', likes: '5', media_count: '2', quoted_text: 'Quoted', quoted_author: 'bob',
+    });
+    expect(metadata.is_reply).toBeUndefined();
+    expect(oembed).not.toHaveBeenCalled();
+  });
+
+  it('reports every error when all strategies fail', async () => {
+    vi.spyOn(twitter, 'fetchFromGraphql').mockRejectedValue(new Error('a'));
+    vi.spyOn(twitter, 'fetchFromEmbed').mockRejectedValue(new Error('b'));
+    vi.spyOn(twitter, 'fetchFromOEmbed').mockRejectedValue(new Error('c'));
+
+    await expect(twitter.fetchMetadata(url)).rejects.toThrow('GraphQL API: a; embed: b; oEmbed: c');
+  });
+
+  it('counts the thread position through replies by the same author', async () => {
+    const tweets: Record<string, object> = {
+      '3': { text: 'Third', author: 'alice', replyToId: '2', replyToAuthor: 'Alice' },
+      '2': { text: 'Second', author: 'alice', replyToId: '1', replyToAuthor: 'alice' },
+      '1': { text: 'First', author: 'alice' },
+    };
+    vi.spyOn(twitter, 'fetchFromGraphql').mockImplementation(async (id: any) => tweets[id]);
+
+    const metadata = await twitter.fetchMetadata(url);
+    expect(metadata.is_reply).toBe('yes');
+    expect(metadata.thread_position).toBe('3');
+  });
+
+  it('fetches parents only with the strategy that read the tweet', async () => {
+    vi.spyOn(twitter, 'fetchFromGraphql').mockRejectedValue(new Error('guest token rejected'));
+    const embed = vi.spyOn(twitter, 'fetchFromEmbed').mockImplementation(async (id: any) => id === '3'
+      ? { text: 'Second', author: 'alice', replyToId: '2', replyToAuthor: 'alice' }
+      : { text: 'First', author: 'alice' });
+
+    const metadata = await twitter.fetchMetadata(url);
+    expect(metadata.thread_position).toBe('2');
+    expect(twitter.fetchFromGraphql).toHaveBeenCalledTimes(1);
+    expect(embed).toHaveBeenCalledTimes(2);
+  });
+
+  it('formats the tweet without a thread position when a parent fails', async () => {
+    vi.spyOn(twitter, 'fetchFromGraphql').mockImplementation(async (id: any) => {
+      if (id === '3') return { text: 'Reply', author: 'alice', replyToId: '2', replyToAuthor: 'alice' };
+      throw new Error('rate limited');
+    });
+
+    const metadata = await twitter.fetchMetadata(url);
+    expect(metadata.text).toBe('Reply');
+    expect(metadata.is_reply).toBe('yes');
+    expect(metadata.thread_position).toBeUndefined();
+  });
+
+  it('gives up on the thread position after its time budget', async () => {
+    vi.useFakeTimers();
+    try {
+      vi.spyOn(twitter, 'fetchFromGraphql').mockImplementation((id: any) => id === '3'
+        ? Promise.resolve({ text: 'Reply', author: 'alice', replyToId: '2', replyToAuthor: 'alice' })
+        : new Promise(() => {}));
+
+      const pending = twitter.fetchMetadata(url);
+      await vi.advanceTimersByTimeAsync(3000);
+      const metadata = await pending;
+      expect(metadata.text).toBe('Reply');
+      expect(metadata.thread_position).toBeUndefined();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('reuses the guest token', async () => {
+    const request = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response('{"guest_token":"t1"}'));
+    twitter.bearerToken = 'Bearer x';
+    twitter.guestToken = null;
+
+    expect(await twitter.getGuestToken()).toBe('t1');
+    expect(await twitter.getGuestToken()).toBe('t1');
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('has no thread position for replies to other authors', async () => {
+    vi.spyOn(twitter, 'fetchFromGraphql').mockResolvedValue({ text: 'Reply', author: 'alice', replyToId: '1', replyToAuthor: 'bob' });
+
+    const metadata = await twitter.fetchMetadata(url);
+    expect(metadata.is_reply).toBe('yes');
+    expect(metadata.thread_position).toBeUndefined();
+  });
+});
+
+describe('parseIsoDuration', () => {
+  it.each([
+    ['PT3M25S', 205],
+    ['P00H03M25S', 205],
+    ['PT1H2M', 3720],
+    ['PT45.6S', 46],
+  ])('reads %s as %d seconds', (duration, seconds) => {
+    expect(parseIsoDuration(duration)).toBe(seconds);
+  });
+
+  it('returns undefined for other values', () => {
+    expect(parseIsoDuration('3:25')).toBeUndefined();
+    expect(parseIsoDuration(undefined)).toBeUndefined();
+  });
+});
+
+describe('YouTube default formats', () => {
+  const plugin = { settings: { clientFormats: {}, titleReplacements: [] } } as any;
+  const metadata = { title: 'Video', channel: 'Someone', is_live: 'yes' };
+
+  it.each([
+    ['youtube', 'https://youtube.com/watch?v=abc', '[Video](https://youtube.com/watch?v=abc) by Someone'],
+    ['youtube-short', 'https://youtube.com/shorts/abc', '[Video](https://youtube.com/shorts/abc) by Someone (Short)'],
+    ['youtube-live', 'https://youtube.com/live/abc', '[Video](https://youtube.com/live/abc) by Someone 🔴 live'],
+  ])('formats %s links', (name, url, expected) => {
+    const client = CLIENTS.find(c => c.name === name)!;
+    expect(client.format(metadata, url, plugin)).toBe(expected);
+  });
+});
+
+describe('YouTube chapters', () => {
+  const description = [
+    'Lecture 3 of the course.',
+    '',
+    '0:00 Intro',
+    '2:15 - Recap',
+    '(12:34) Binary search',
+    '1:02:03 – Q&A',
+    '',
+    'Slides: https://example.com/slides',
+  ].join('\n');
+
+  it('parses timestamps with optional separators and brackets', () => {
+    expect(parseYouTubeChapters(description)).toEqual([
+      { start: 0, title: 'Intro' },
+      { start: 135, title: 'Recap' },
+      { start: 754, title: 'Binary search' },
+      { start: 3723, title: 'Q&A' },
+    ]);
+  });
+
+  it('ignores descriptions whose timestamps do not start at 0:00', () => {
+    expect(parseYouTubeChapters('1:00 Start\n2:00 Middle')).toEqual([]);
+    expect(parseYouTubeChapters('0:00 Only one')).toEqual([]);
+    expect(parseYouTubeChapters(undefined)).toEqual([]);
+  });
+
+  it('finds the chapter playing at a timestamp', () => {
+    const chapters = parseYouTubeChapters(description);
+    expect(findYouTubeChapter(chapters, 800)).toEqual({ chapter: { start: 754, title: 'Binary search' }, index: 3 });
+    expect(findYouTubeChapter(chapters, 135)?.index).toBe(2);
+    expect(findYouTubeChapter(chapters, 5000)?.chapter.title).toBe('Q&A');
+    expect(findYouTubeChapter([], 100)).toBeUndefined();
+  });
+});
+
+describe('cleanRepositoryUrl', () => {
+  it.each([
+    ['git+https://github.com/facebook/react.git', 'https://github.com/facebook/react'],
+    ['git://github.com/user/repo.git', 'https://github.com/user/repo'],
+    ['git@github.com:user/repo.git', 'https://github.com/user/repo'],
+    ['git+ssh://git@github.com/user/repo.git', 'https://github.com/user/repo'],
+    ['github:user/repo', 'https://github.com/user/repo'],
+    ['user/repo', 'https://github.com/user/repo'],
+    ['https://gitlab.com/group/project', 'https://gitlab.com/group/project'],
+  ])('cleans %s', (repository, url) => {
+    expect(cleanRepositoryUrl(repository)).toBe(url);
+  });
+
+  it('returns undefined for missing or unrecognized values', () => {
+    expect(cleanRepositoryUrl(undefined)).toBeUndefined();
+    expect(cleanRepositoryUrl('not a url')).toBeUndefined();
+  });
+});
+
+describe('buildBibtex', () => {
+  it('builds an article entry with a readable key', () => {
+    expect(buildBibtex({
+      type: 'article',
+      title: 'Deep learning',
+      authors: [{ given: 'Yann', family: 'LeCun' }, { given: 'Yoshua', family: 'Bengio' }],
+      year: '2015',
+      venue: 'Nature',
+      doi: '10.1038/nature14539',
+      url: 'https://doi.org/10.1038/nature14539',
+    })).toBe([
+      '@article{lecun2015deep,',
+      '  title = {{Deep learning}},',
+      '  author = {LeCun, Yann and Bengio, Yoshua},',
+      '  year = {2015},',
+      '  journal = {Nature},',
+      '  doi = {10.1038/nature14539},',
+      '  url = {https://doi.org/10.1038/nature14539}',
+      '}',
+    ].join('\n'));
+  });
+
+  it('includes the arXiv eprint and skips missing fields', () => {
+    const bibtex = buildBibtex({
+      type: 'misc',
+      title: 'Attention Is All You Need',
+      authors: [{ given: 'Ashish', family: 'Vaswani' }],
+      year: '2017',
+      arxivId: '1706.03762',
+      url: 'https://arxiv.org/abs/1706.03762',
+    });
+    expect(bibtex).toMatch(/^@misc\{vaswani2017attention,/);
+    expect(bibtex).toContain('eprint = {1706.03762}');
+    expect(bibtex).toContain('archivePrefix = {arXiv}');
+    expect(bibtex).not.toContain('publisher');
+  });
+});
+
+describe('GitHub file links', () => {
+  const file = CLIENTS.find(c => c.name === 'github-file')!;
+
+  it('captures the path and line range without fetching', async () => {
+    const metadata = await file.fetchMetadata('https://github.com/obsidianmd/obsidian-api/blob/master/src/obsidian.d.ts#L10-L20');
+    expect(metadata).toMatchObject({ owner: 'obsidianmd', repo: 'obsidian-api', ref: 'master', path: 'src/obsidian.d.ts', filename: 'obsidian.d.ts', lines: '10-20' });
+  });
+
+  it('captures a single line', async () => {
+    const metadata = await file.fetchMetadata('https://github.com/user/repo/blob/main/README.md#L5');
+    expect(metadata.lines).toBe('5');
+  });
+
+  it('formats with the default format', async () => {
+    const url = 'https://github.com/user/repo/blob/main/README.md#L5-L7';
+    const plugin = { settings: { clientFormats: {}, titleReplacements: [] } } as any;
+    expect(file.format(await file.fetchMetadata(url), url, plugin)).toBe(`[README.md L5-7](${url}) (user/repo)`);
+  });
+});
+
 // -- Real network: fetchMetadata against live URLs --
 
 describe('fetchMetadata (live network)', () => {
@@ -340,6 +920,13 @@ describe('findUnformattedUrls', () => {
     expect(results).toHaveLength(1);
   });
 
+  it('skips URLs stored in placeholder spans', () => {
+    const lines = ['<span class="link-loading-inactive" id="link-placeholder-1" url="https://example.com">Failed to resolve</span> https://real.com'];
+    const results = findUnformattedUrls(lines, 0, 0);
+    expect(results).toHaveLength(1);
+    expect(results[0].url).toBe('https://real.com');
+  });
+
   it('returns correct positions for replacement', () => {
     const lines = ['text https://example.com more'];
     const results = findUnformattedUrls(lines, 0, 0);
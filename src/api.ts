@@ -0,0 +1,43 @@
+import { Client, UnsupportedLinkError, formatTemplate } from "clients";
+import { ClientPriority } from "registry";
+
+/**
+ * The API other plugins use to extend Smart Link Formatter, available as
+ * `app.plugins.getPlugin("smart-link-formatter").api`.
+ *
+ * Backwards-incompatible changes increase `version`.
+ */
+export interface SmartLinkFormatterApi {
+  readonly version: number;
+
+  /** Base class for clients. Extend it rather than importing this plugin. */
+  readonly Client: typeof Client;
+  /** Thrown from `fetchMetadata` to hand a link to the next matching client. */
+  readonly UnsupportedLinkError: typeof UnsupportedLinkError;
+  readonly ClientPriority: typeof ClientPriority;
+  readonly formatTemplate: typeof formatTemplate;
+
+  /**
+   * Adds a client. Call the returned function, e.g. through `Plugin.register`, to remove it on unload.
+   * @param client - The client to add. Its name must be unique.
+   * @param priority - Defaults to `ClientPriority.Registered`, ahead of the built-in clients.
+   * @throws If a client with the same name already exists.
+   */
+  registerClient(client: Client, priority?: number): () => void;
+
+  /**
+   * Removes a client added with `registerClient`.
+   * @returns Whether a client was removed.
+   */
+  unregisterClient(name: string): boolean;
+
+  /** Lists every client in matching order. */
+  getClients(): Client[];
+}
+
+export const API_VERSION = 1;
+
+/**
+ * Workspace event triggered with the API once the plugin has loaded, for plugins that load first.
+ */
+export const API_READY_EVENT = "smart-link-formatter:api-ready";
@@ -0,0 +1,159 @@
+import { TFile, TFolder, Vault } from "obsidian";
+import SmartLinkFormatterPlugin from "main";
+import { findUnformattedUrls } from "utils";
+
+/**
+ * A link found while bulk formatting, with its proposed or applied replacement.
+ */
+export interface BulkLinkResult {
+  path: string;
+  url: string;
+  line: number;
+  client: string;
+  replacement?: string;
+  error?: string;
+  downloadsImage?: boolean;   // In a dry run, the replacement will embed a downloaded copy instead of the URL
+}
+
+export interface BulkSkippedFile {
+  path: string;
+  reason: string;
+}
+
+export interface BulkReport {
+  dryRun: boolean;
+  scannedFiles: number;
+  links: BulkLinkResult[];
+  changedFiles: string[];
+  skipped: BulkSkippedFile[];
+}
+
+interface PendingLink extends BulkLinkResult {
+  start: number;
+  end: number;
+}
+
+/**
+ * Collects the markdown files inside a folder, recursively.
+ * @param folder - The folder to scan.
+ */
+export function getMarkdownFilesInFolder(folder: TFolder): TFile[] {
+  const files: TFile[] = [];
+  Vault.recurseChildren(folder, (child) => {
+    if (child instanceof TFile && child.extension === 'md') {
+      files.push(child);
+    }
+  });
+  return files;
+}
+
+/**
+ * Formats unformatted URLs across many notes, writing through the vault API.
+ * In dry-run mode, replacements are computed and reported but nothing is written.
+ * @param plugin - The plugin instance, used for client lookup and link resolution.
+ * @param files - The notes to format.
+ * @param dryRun - Whether to only report proposed changes.
+ * @param onProgress - Called after each link resolves with the number done and the total.
+ * @param signal - Cancels fetches that have not finished. Links already resolved are still written.
+ * @returns A report of every link found and every file skipped.
+ */
+export async function formatLinksInFiles(
+  plugin: SmartLinkFormatterPlugin,
+  files: TFile[],
+  dryRun: boolean,
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<BulkReport> {
+  const report: BulkReport = { dryRun, scannedFiles: files.length, links: [], changedFiles: [], skipped: [] };
+  const linksByFile = new Map<TFile, PendingLink[]>();
+
+  for (const file of files) {
+    const content = await plugin.app.vault.cachedRead(file);
+    const lines = content.split('\n');
+    const found = findUnformattedUrls(lines, 0, lines.length - 1);
+
+    if (found.length === 0) continue;
+
+    const allowed = found.filter(({ url }) => !plugin.isBlacklisted(url));
+    if (allowed.length === 0) {
+      report.skipped.push({ path: file.path, reason: 'All links are in blacklisted domains' });
+      continue;
+    }
+
+    linksByFile.set(file, allowed.map(({ url, line, start, end }) => {
+      const client = plugin.findClient(url)?.name ?? 'none';
+      return {
+        path: file.path,
+        url,
+        line,
+        start,
+        end,
+        client,
+        downloadsImage: dryRun && client === 'image' && plugin.settings.downloadImages,
+      };
+    }));
+  }
+
+  const total = Array.from(linksByFile.values()).reduce((sum, links) => sum + links.length, 0);
+  let done = 0;
+
+  await Promise.all(Array.from(linksByFile.entries()).map(async ([file, links]) => {
+    await Promise.all(links.map(async (link) => {
+      try {
+        // Dry runs must not download images into the vault
+        link.replacement = await plugin.resolveLink(link.url, signal, dryRun ? undefined : file.path);
+      } catch (error) {
+        link.error = error instanceof Error ? error.message : String(error);
+      }
+      onProgress?.(++done, total);
+    }));
+
+    report.links.push(...links.map(({ start: _start, end: _end, ...result }) => result));
+
+    const resolved = links.filter(link => link.replacement !== undefined);
+    if (resolved.length === 0) {
+      report.skipped.push({ path: file.path, reason: 'No links could be resolved' });
+      return;
+    }
+    if (dryRun) return;
+
+    const applied = await applyReplacements(plugin, file, resolved);
+    if (applied === 0) {
+      report.skipped.push({ path: file.path, reason: 'File changed while links were being fetched' });
+    } else {
+      report.changedFiles.push(file.path);
+    }
+  }));
+
+  report.links.sort((a, b) => a.path.localeCompare(b.path) || a.line - b.line);
+  report.skipped.sort((a, b) => a.path.localeCompare(b.path));
+  return report;
+}
+
+/**
+ * Writes resolved links into a file, skipping any whose URL moved since the file was scanned.
+ * @returns The number of links replaced.
+ */
+async function applyReplacements(
+  plugin: SmartLinkFormatterPlugin,
+  file: TFile,
+  links: PendingLink[]
+): Promise<number> {
+  let applied = 0;
+
+  await plugin.app.vault.process(file, (data) => {
+    const lines = data.split('\n');
+    const ordered = [...links].sort((a, b) => b.line - a.line || b.start - a.start);
+
+    for (const { url, line, start, end, replacement } of ordered) {
+      const text = lines[line];
+      if (text === undefined || text.substring(start, end) !== url) continue;
+      lines[line] = text.substring(0, start) + replacement + text.substring(end);
+      applied++;
+    }
+
+    return lines.join('\n');
+  });
+
+  return applied;
+}
@@ -0,0 +1,141 @@
+import { Plugin, debounce } from "obsidian";
+import { normalizeUrl } from "utils";
+import { readPluginJson, writePluginJson } from "storage";
+
+const CACHE_FILE = "cache.json";
+const MAX_ENTRIES = 5000;
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface CacheEntry {
+  client: string;
+  metadata: Record<string, string | undefined>;
+  fetchedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Persistent store of fetched link metadata, keyed by normalized URL.
+ * Entries are kept past expiry so they can serve as an offline fallback until pruned.
+ */
+export class MetadataCache {
+  private entries: Record<string, CacheEntry> = {};
+  private requestSave = debounce(() => void this.save(), 2000, true);
+
+  constructor(private plugin: Plugin) {}
+
+  async load(): Promise<void> {
+    this.entries = await readPluginJson<Record<string, CacheEntry>>(this.plugin, CACHE_FILE, {});
+  }
+
+  async save(): Promise<void> {
+    await writePluginJson(this.plugin, CACHE_FILE, this.entries);
+  }
+
+  get size(): number {
+    return Object.keys(this.entries).length;
+  }
+
+  /**
+   * Looks up an entry, including expired ones.
+   * @param url - The URL to look up. It is normalized before lookup.
+   * @returns The entry, or undefined if the URL was never cached.
+   */
+  get(url: string): CacheEntry | undefined {
+    return this.entries[normalizeUrl(url)];
+  }
+
+  /**
+   * Stores metadata for a URL.
+   * @param url - The URL the metadata belongs to.
+   * @param client - Name of the client that produced the metadata.
+   * @param metadata - The fetched metadata.
+   * @param ttlHours - Hours until the entry expires. Zero or less skips caching.
+   */
+  set(url: string, client: string, metadata: Record<string, string | undefined>, ttlHours: number): void {
+    if (ttlHours <= 0) return;
+
+    const now = Date.now();
+    this.entries[normalizeUrl(url)] = {
+      client,
+      metadata,
+      fetchedAt: now,
+      expiresAt: now + ttlHours * HOUR_MS,
+    };
+
+    if (this.size > MAX_ENTRIES) {
+      this.evictOldest(this.size - MAX_ENTRIES);
+    }
+    this.requestSave();
+  }
+
+  delete(url: string): void {
+    delete this.entries[normalizeUrl(url)];
+    this.requestSave();
+  }
+
+  isExpired(entry: CacheEntry): boolean {
+    return entry.expiresAt <= Date.now();
+  }
+
+  /**
+   * Lists all entries, most recently fetched first.
+   */
+  list(): Array<{ url: string; entry: CacheEntry }> {
+    return Object.entries(this.entries)
+      .map(([url, entry]) => ({ url, entry }))
+      .sort((a, b) => b.entry.fetchedAt - a.entry.fetchedAt);
+  }
+
+  /**
+   * Removes expired entries.
+   * @returns The number of entries removed.
+   */
+  async prune(): Promise<number> {
+    let removed = 0;
+    for (const [url, entry] of Object.entries(this.entries)) {
+      if (this.isExpired(entry)) {
+        delete this.entries[url];
+        removed++;
+      }
+    }
+    if (removed > 0) await this.save();
+    return removed;
+  }
+
+  /**
+   * Removes the entries a client produced, e.g. after its definition changed.
+   * @param client - Name of the client.
+   * @returns The number of entries removed.
+   */
+  async clearClient(client: string): Promise<number> {
+    let removed = 0;
+    for (const [url, entry] of Object.entries(this.entries)) {
+      if (entry.client === client) {
+        delete this.entries[url];
+        removed++;
+      }
+    }
+    if (removed > 0) await this.save();
+    return removed;
+  }
+
+  /**
+   * Removes every entry.
+   * @returns The number of entries removed.
+   */
+  async clear(): Promise<number> {
+    const removed = this.size;
+    this.entries = {};
+    await this.save();
+    return removed;
+  }
+
+  private evictOldest(count: number): void {
+    const oldest = Object.entries(this.entries)
+      .sort((a, b) => a[1].fetchedAt - b[1].fetchedAt)
+      .slice(0, count);
+    for (const [url] of oldest) {
+      delete this.entries[url];
+    }
+  }
+}
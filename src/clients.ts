@@ -1,15 +1,29 @@
-import { requestUrl } from "obsidian";
-import { escapeMarkdownChars, formatDuration, applyTitleReplacements } from "utils";
+import { escapeMarkdownChars, formatDuration, formatFileSize, applyTitleReplacements, normalizeUrl } from "utils";
 import SmartLinkFormatterPlugin from "main";
-import { getPageTitle } from "title-utils";
-import { moment } from "obsidian";
+import { getPageMetadata, PAGE_META_TAGS } from "title-utils";
+import { request, raceSignal, CancelledError } from "request";
+import { IMAGE_HEADER_BYTES, readImageHeader } from "images";
+import { moment, RequestUrlResponse } from "obsidian";
+
+/**
+ * Thrown by a client that matched a link but cannot describe it, so the next
+ * matching client is tried instead.
+ */
+export class UnsupportedLinkError extends Error {
+  constructor(message = "Link is not supported by this client") {
+    super(message);
+    this.name = "UnsupportedLinkError";
+  }
+}
 
 export abstract class Client {
-  abstract readonly name: ClientName;
+  abstract readonly name: string;
   abstract displayName: string;
   abstract defaultFormat: string;
+  /** How long fetched metadata stays fresh in the metadata cache. */
+  defaultCacheTtlHours = 24 * 7;
   abstract getAvailableVariables(): string[];
-  abstract fetchMetadata(url: string): Promise<Record<string, string | undefined>>;
+  abstract fetchMetadata(url: string, signal?: AbortSignal): Promise<Record<string, string | undefined>>;
   abstract matches(url: string): boolean;
 
   format(
@@ -37,6 +51,9 @@ export abstract class Client {
  * - Date formatting: {date_field|YYYY-MM-DD}
  * - Conditional formatting: {field?show_if_present:show_if_absent}
  *
+ * Conditional branches are scanned again, so they can contain variables. Inserted
+ * values are not: braces in a value (e.g. a BibTeX entry) are kept as they are.
+ *
  * @param template - Template string with {variable} placeholders
  * @param metadata - Object containing variable values
  * @param url - The URL being formatted
@@ -47,6 +64,10 @@ export function formatTemplate(
   metadata: Record<string, string | undefined>,
   url: string
 ): string {
+  // Inserted values are held back behind tokens until the template is fully resolved
+  const values: string[] = [];
+  const insert = (value: string) => `\u0000${values.push(value) - 1}\u0000`;
+
   let result = template;
   let previousResult = '';
 
@@ -83,7 +104,7 @@ export function formatTemplate(
       const [variable, format] = key.split('|').map((s: string) => s.trim());
 
       if (variable === "url") {
-        return url;
+        return insert(url);
       }
 
       const value = metadata[variable];
@@ -91,16 +112,16 @@ export function formatTemplate(
         return '';
       }
 
-      const dateFields = ['upload_date', 'created_at'];
+      const dateFields = ['upload_date', 'created_at', 'article:published_time', 'article:modified_time'];
       if (format && dateFields.includes(variable) && moment(value).isValid()) {
-        return moment(value).format(format);
+        return insert(moment(value).format(format));
       }
 
-      return String(value);
+      return insert(String(value));
     });
   }
 
-  return result;
+  return result.replace(/\u0000(\d+)\u0000/g, (match, index) => values[Number(index)]);
 }
 
 /**
@@ -130,10 +151,105 @@ export function wrapInMarkdownLink(formattedText: string, url: string): string {
   return isEmbed ? `!${link}` : link;
 }
 
-class YouTubeClient extends Client {
-  readonly name = "youtube" as const;
-  displayName = "YouTube";
-  defaultFormat = "[{title}] by {channel}";
+const YOUTUBE_SHORT_OR_LIVE = /^https:\/\/youtube\.com\/(shorts|live)\/([\w-]+)/;
+const YOUTUBE_SHORT = /^https:\/\/youtube\.com\/shorts\/[\w-]+/;
+const YOUTUBE_LIVE = /^https:\/\/youtube\.com\/(live\/[\w-]+|@[\w.-]+\/live\/?(?:[?#]|$))/;
+const YOUTUBE_PLAYLIST = /^https:\/\/youtube\.com\/playlist\?(?:.*&)?list=([\w-]+)/;
+const YOUTUBE_CHANNEL = /^https:\/\/youtube\.com\/(@[\w.-]+|channel\/[\w-]+|c\/[^/?#]+|user\/[^/?#]+)\/?(?:(?:featured|videos|shorts|streams|playlists|community|about)\/?)?(?:[?#]|$)/;
+
+/**
+ * Reads a JSON object assigned in one of YouTube's inline scripts, such as `ytInitialData`.
+ * @returns The parsed object, or null if it is missing or cannot be parsed.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any -- YouTube page data has no typed schema
+function extractYouTubeJson(html: string, name: string): any {
+  const match = html.match(new RegExp(`(?:var ${name}|window\\["${name}"\\]) = ({.*?});\\s*(?:var |</script>)`));
+  if (!match) return null;
+  try {
+    return JSON.parse(match[1]);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Finds a count such as "1.2M subscribers" or "42 videos" in a YouTube page.
+ * @returns The count without its unit, e.g. "1.2M".
+ */
+function findYouTubeCount(html: string, unit: string): string | undefined {
+  const match = html.match(new RegExp(`"(?:simpleText|text|content)":"([\\d.,]+[KMB]?) ${unit}s?"`));
+  return match?.[1];
+}
+
+/**
+ * Reads the text of a YouTube text object, which is either `{simpleText}` or `{runs: [{text}]}`.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any -- YouTube page data has no typed schema
+function youTubeText(value: any): string | undefined {
+  if (typeof value === "string") return value;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- YouTube page data has no typed schema
+  return value?.simpleText ?? value?.runs?.map((run: any) => run.text).join("");
+}
+
+export interface YouTubeChapter {
+  start: number;  // Seconds from the start of the video
+  title: string;
+}
+
+/**
+ * Reads chapter markers from a video description: lines starting with a
+ * timestamp such as `0:00 Intro` or `1:02:03 - Q&A`. Like YouTube, the first
+ * chapter has to start at 0:00 and the timestamps have to increase.
+ * @returns The chapters, or an empty array if the description has none.
+ */
+export function parseYouTubeChapters(description: string | undefined): YouTubeChapter[] {
+  const chapters: YouTubeChapter[] = [];
+  for (const line of (description ?? "").split("\n")) {
+    const match = line.match(/^\s*(?:[-•*]\s*)?\(?((?:\d{1,2}:)?\d{1,2}:\d{2})\)?\s*(?:[-–—:|]\s*)?(\S.*?)\s*$/);
+    if (!match) continue;
+    const start = match[1].split(":").reduce((total, part) => total * 60 + Number(part), 0);
+    if (chapters.length > 0 && start <= chapters[chapters.length - 1].start) continue;
+    chapters.push({ start, title: match[2] });
+  }
+  return chapters.length >= 2 && chapters[0].start === 0 ? chapters : [];
+}
+
+/**
+ * Reads the chapters shown on the player's progress bar from `ytInitialData`,
+ * which also covers chapters YouTube generated automatically.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any -- YouTube page data has no typed schema
+function getPlayerChapters(data: any): YouTubeChapter[] {
+  const markers = data?.playerOverlays?.playerOverlayRenderer?.decoratedPlayerBarRenderer
+    ?.decoratedPlayerBarRenderer?.playerBar?.multiMarkersPlayerBarRenderer?.markersMap ?? [];
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- YouTube page data has no typed schema
+  const chapters = markers.find((marker: any) => marker.value?.chapters)?.value.chapters ?? [];
+  return chapters
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any -- YouTube page data has no typed schema
+    .map((chapter: any) => ({
+      start: Math.floor((chapter.chapterRenderer?.timeRangeStartMillis ?? 0) / 1000),
+      title: youTubeText(chapter.chapterRenderer?.title) ?? "",
+    }))
+    .filter((chapter: YouTubeChapter) => chapter.title);
+}
+
+/**
+ * Finds the chapter playing at a point in the video.
+ * @returns The chapter and its 1-based index, or undefined before the first chapter.
+ */
+export function findYouTubeChapter(chapters: YouTubeChapter[], seconds: number): { chapter: YouTubeChapter; index: number } | undefined {
+  for (let i = chapters.length - 1; i >= 0; i--) {
+    if (chapters[i].start <= seconds) return { chapter: chapters[i], index: i + 1 };
+  }
+  return undefined;
+}
+
+/**
+ * Reads a video's watch page. Watch, Shorts and live links share this and
+ * differ only in their default formats.
+ */
+abstract class YouTubeVideoClient extends Client {
+  defaultCacheTtlHours = 24;
 
   getAvailableVariables(): string[] {
     return [
@@ -146,13 +262,25 @@ class YouTubeClient extends Client {
       "description",
       "url",
       "timestamp",
+      "is_live",
+      "is_short",
+      "playlist_title",
+      "playlist_index",
+      "video_count",
+      "chapter",
+      "chapter_index",
     ];
   }
 
   async fetchMetadata(
-    url: string
+    url: string,
+    signal?: AbortSignal
   ): Promise<Record<string, string | undefined>> {
-    const response = await requestUrl({ url: url, method: "GET" });
+    // Shorts and /live/ links are fetched as watch pages, which carry the full player data
+    const shortOrLive = normalizeUrl(url).match(YOUTUBE_SHORT_OR_LIVE);
+    const pageUrl = shortOrLive ? `https://www.youtube.com/watch?v=${shortOrLive[2]}` : url;
+
+    const response = await request({ url: pageUrl, method: "GET" }, signal);
     const html = response.text;
 
     const match = html.match(/var ytInitialPlayerResponse = ({.*?});/);
@@ -181,6 +309,23 @@ class YouTubeClient extends Client {
     const views = videoDetails?.viewCount;
     const durationSeconds = videoDetails?.lengthSeconds;
     const uploadDate = microformat?.publishDate;
+    const isLive = videoDetails?.isLive || microformat?.liveBroadcastDetails?.isLiveNow;
+
+    const urlObj = new URL(url);
+    const initialData = extractYouTubeJson(html, "ytInitialData");
+
+    // Watch links with a list= parameter show the playlist next to the video
+    const playlist = urlObj.searchParams.has("list")
+      ? initialData?.contents?.twoColumnWatchNextResults?.playlist?.playlist
+      : undefined;
+    const playlistTitle = youTubeText(playlist?.title);
+
+    // Timestamped links name the chapter playing at that point
+    const seconds = this.getYouTubeTimestamp(urlObj);
+    const playerChapters = seconds ? getPlayerChapters(initialData) : [];
+    const current = seconds
+      ? findYouTubeChapter(playerChapters.length > 0 ? playerChapters : parseYouTubeChapters(description), seconds)
+      : undefined;
 
     return {
       title: title ? escapeMarkdownChars(title) : undefined,
@@ -188,8 +333,15 @@ class YouTubeClient extends Client {
       channel: uploader ? escapeMarkdownChars(uploader) : undefined,
       description: description ? escapeMarkdownChars(description) : undefined,
       views: views ? parseInt(views).toLocaleString() : undefined,
-      duration: durationSeconds ? formatDuration(parseInt(durationSeconds)) : undefined,
+      duration: durationSeconds && durationSeconds !== "0" ? formatDuration(parseInt(durationSeconds)) : undefined,
       upload_date: uploadDate ? escapeMarkdownChars(uploadDate) : undefined,
+      is_live: isLive ? "yes" : undefined,
+      is_short: shortOrLive?.[1] === "shorts" ? "yes" : undefined,
+      playlist_title: playlistTitle ? escapeMarkdownChars(playlistTitle) : undefined,
+      playlist_index: typeof playlist?.currentIndex === "number" ? String(playlist.currentIndex + 1) : undefined,
+      video_count: playlist?.totalVideos ? String(playlist.totalVideos) : undefined,
+      chapter: current ? escapeMarkdownChars(current.chapter.title) : undefined,
+      chapter_index: current ? String(current.index) : undefined,
     };
   }
 
@@ -219,13 +371,6 @@ class YouTubeClient extends Client {
     return super.format(extendedMetadata, url, plugin);
   }
 
-  matches = (url: string) => {
-    if (url.match(/^https:\/\/(youtube\.com|youtu\.be)\//)) {
-      return true;
-    }
-    return false;
-  };
-
   /**
    * Creates a YouTube timestamp from a given URL.
    * @param url - The URL to fetch the timestamp from.
@@ -239,6 +384,118 @@ class YouTubeClient extends Client {
   }
 }
 
+class YouTubeClient extends YouTubeVideoClient {
+  readonly name = "youtube" as const;
+  displayName = "YouTube";
+  defaultFormat = "[{title}] by {channel}";
+
+  matches = (url: string) => {
+    if (YOUTUBE_PLAYLIST.test(url) || YOUTUBE_CHANNEL.test(url) || YOUTUBE_SHORT.test(url) || YOUTUBE_LIVE.test(url)) {
+      return false;
+    }
+    if (url.match(/^https:\/\/(youtube\.com|youtu\.be)\//)) {
+      return true;
+    }
+    return false;
+  };
+}
+
+class YouTubeShortClient extends YouTubeVideoClient {
+  readonly name = "youtube-short" as const;
+  displayName = "YouTube Shorts";
+  defaultFormat = "[{title}] by {channel} (Short)";
+
+  matches = (url: string) => {
+    return YOUTUBE_SHORT.test(url);
+  };
+}
+
+class YouTubeLiveClient extends YouTubeVideoClient {
+  readonly name = "youtube-live" as const;
+  displayName = "YouTube live stream";
+  defaultFormat = "[{title}] by {channel}{is_live? 🔴 live:}";
+
+  matches = (url: string) => {
+    return YOUTUBE_LIVE.test(url);
+  };
+}
+
+class YouTubePlaylistClient extends Client {
+  readonly name = "youtube-playlist" as const;
+  displayName = "YouTube playlist";
+  defaultFormat = "[{playlist_title}] by {channel}{video_count? ({video_count} videos):}";
+  defaultCacheTtlHours = 24;
+
+  getAvailableVariables(): string[] {
+    return ["playlist_title", "channel", "video_count", "description", "url"];
+  }
+
+  matches = (url: string) => {
+    return YOUTUBE_PLAYLIST.test(url);
+  };
+
+  async fetchMetadata(
+    url: string,
+    signal?: AbortSignal
+  ): Promise<Record<string, string | undefined>> {
+    const response = await request({ url: url, method: "GET" }, signal);
+    const data = extractYouTubeJson(response.text, "ytInitialData");
+    const metadata = data?.metadata?.playlistMetadataRenderer;
+    if (!metadata) {
+      throw new Error("Could not find playlist metadata in ytInitialData.");
+    }
+
+    const sidebar = data.sidebar?.playlistSidebarRenderer?.items ?? [];
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any -- YouTube page data has no typed schema
+    const owner = sidebar.find((item: any) => item.playlistSidebarSecondaryInfoRenderer)
+      ?.playlistSidebarSecondaryInfoRenderer.videoOwner?.videoOwnerRenderer?.title;
+    const channel = youTubeText(owner) ?? youTubeText(data.header?.playlistHeaderRenderer?.ownerText);
+
+    return {
+      playlist_title: metadata.title ? escapeMarkdownChars(metadata.title) : undefined,
+      channel: channel ? escapeMarkdownChars(channel) : undefined,
+      video_count: findYouTubeCount(response.text, "video"),
+      description: metadata.description ? escapeMarkdownChars(metadata.description) : undefined,
+    };
+  }
+}
+
+class YouTubeChannelClient extends Client {
+  readonly name = "youtube-channel" as const;
+  displayName = "YouTube channel";
+  defaultFormat = "[{channel}]{subscriber_count? ({subscriber_count} subscribers):}";
+  defaultCacheTtlHours = 24;
+
+  getAvailableVariables(): string[] {
+    return ["channel", "handle", "subscriber_count", "video_count", "description", "url"];
+  }
+
+  matches = (url: string) => {
+    return YOUTUBE_CHANNEL.test(url);
+  };
+
+  async fetchMetadata(
+    url: string,
+    signal?: AbortSignal
+  ): Promise<Record<string, string | undefined>> {
+    const response = await request({ url: url, method: "GET" }, signal);
+    const metadata = extractYouTubeJson(response.text, "ytInitialData")?.metadata?.channelMetadataRenderer;
+    if (!metadata) {
+      throw new Error("Could not find channel metadata in ytInitialData.");
+    }
+
+    const handle = metadata.vanityChannelUrl?.match(/\/(@[\w.-]+)$/)?.[1];
+
+    return {
+      channel: metadata.title ? escapeMarkdownChars(metadata.title) : undefined,
+      handle: handle ? escapeMarkdownChars(handle) : undefined,
+      subscriber_count: findYouTubeCount(response.text, "subscriber"),
+      video_count: findYouTubeCount(response.text, "video"),
+      description: metadata.description ? escapeMarkdownChars(metadata.description) : undefined,
+    };
+  }
+}
+
 class YouTubeMusicClient extends Client {
   readonly name = "youtube-music" as const;
   displayName = "YouTube Music";
@@ -249,7 +506,8 @@ class YouTubeMusicClient extends Client {
   }
 
   async fetchMetadata(
-    url: string
+    url: string,
+    signal?: AbortSignal
   ): Promise<Record<string, string | undefined>> {
     const videoId = this.extractVideoId(url);
     if (!videoId) {
@@ -268,14 +526,14 @@ class YouTubeMusicClient extends Client {
       }
     };
 
-    const response = await requestUrl({
+    const response = await request({
       url: "https://music.youtube.com/youtubei/v1/player?prettyPrint=false",
       method: "POST",
       headers: {
         "Content-Type": "application/json"
       },
       body: JSON.stringify(payload)
-    });
+    }, signal);
 
     const data = JSON.parse(response.text);
     const videoDetails = data.videoDetails;
@@ -306,13 +564,231 @@ class YouTubeMusicClient extends Client {
   };
 }
 
+/**
+ * Reads an ISO 8601 duration such as `PT3M25S` or `P00H03M25S` into seconds.
+ */
+export function parseIsoDuration(duration: string | undefined): number | undefined {
+  const match = duration?.match(/^P(?:(\d+)D)?T?(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?$/);
+  if (!match) return undefined;
+  const [, days, hours, minutes, seconds] = match.map(part => Number(part ?? 0));
+  return Math.round(days * 86400 + hours * 3600 + minutes * 60 + seconds);
+}
+
+/**
+ * Shared variables and page parsing for music streaming clients.
+ */
+abstract class MusicClient extends Client {
+  defaultFormat = "[{title}] - {artist}";
+
+  getAvailableVariables(): string[] {
+    return ["title", "artist", "album", "duration", "type", "url"];
+  }
+
+  async fetchPage(url: string, signal?: AbortSignal): Promise<Document> {
+    const response = await request({ url: url, method: "GET" }, signal);
+    return new DOMParser().parseFromString(response.text, "text/html");
+  }
+
+  getMeta(doc: Document, name: string): string | undefined {
+    return doc.querySelector(`meta[property="${name}"], meta[name="${name}"]`)?.getAttribute("content")?.trim() || undefined;
+  }
+
+  result(values: { title?: string; artist?: string; album?: string; seconds?: number; type: string }): Record<string, string | undefined> {
+    return {
+      title: values.title ? escapeMarkdownChars(values.title) : undefined,
+      artist: values.artist ? escapeMarkdownChars(values.artist) : undefined,
+      album: values.album ? escapeMarkdownChars(values.album) : undefined,
+      duration: values.seconds ? formatDuration(values.seconds) : undefined,
+      type: values.type,
+    };
+  }
+}
+
+const SPOTIFY_LINK = /^https:\/\/open\.spotify\.com\/(?:intl-[\w-]+\/)?(track|album|playlist)\/(\w+)/;
+
+class SpotifyClient extends MusicClient {
+  readonly name = "spotify" as const;
+  displayName = "Spotify";
+
+  matches = (url: string) => {
+    return SPOTIFY_LINK.test(url);
+  };
+
+  async fetchMetadata(
+    url: string,
+    signal?: AbortSignal
+  ): Promise<Record<string, string | undefined>> {
+    const [, type] = normalizeUrl(url).match(SPOTIFY_LINK)!;
+    const doc = await this.fetchPage(url, signal);
+
+    // The description reads "Artist · Album · Song · 2019", "Artist · Album · 2019 · 12 songs"
+    // or "Playlist · Owner · 50 items"
+    const parts = (this.getMeta(doc, "og:description") ?? "").split(" · ");
+    const duration = Number(this.getMeta(doc, "music:duration"));
+
+    return this.result({
+      title: this.getMeta(doc, "og:title"),
+      artist: type === "track" ? this.getMeta(doc, "music:musician_description") ?? parts[0]
+        : type === "album" ? parts[0]
+        : parts[1],
+      album: type === "track" ? parts[1] : type === "album" ? this.getMeta(doc, "og:title") : undefined,
+      seconds: duration || undefined,
+      type: type,
+    });
+  }
+}
+
+class SoundCloudClient extends MusicClient {
+  readonly name = "soundcloud" as const;
+  displayName = "SoundCloud";
+
+  matches = (url: string) => {
+    if (/^https:\/\/on\.soundcloud\.com\/\w+/.test(url)) return true;
+    const match = url.match(/^https:\/\/(?:m\.)?soundcloud\.com\/([\w-]+)\/(sets\/)?([\w-]+)\/?(?:[?#]|$)/);
+    return !!match && !["discover", "stream", "you", "search", "charts", "pages"].includes(match[1])
+      && (!!match[2] || !["likes", "tracks", "albums", "sets", "reposts", "followers", "following", "popular-tracks", "comments"].includes(match[3]));
+  };
+
+  async fetchMetadata(
+    url: string,
+    signal?: AbortSignal
+  ): Promise<Record<string, string | undefined>> {
+    const response = await request({ url: url, method: "GET" }, signal);
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any -- SoundCloud hydration data has no typed schema
+    let hydration: any[] = [];
+    const match = response.text.match(/window\.__sc_hydration\s*=\s*(\[.*?\]);\s*<\/script>/s);
+    if (match) {
+      hydration = JSON.parse(match[1]);
+    }
+
+    const sound = hydration.find(item => item.hydratable === "sound")?.data;
+    if (sound) {
+      return this.result({
+        title: sound.title,
+        artist: sound.publisher_metadata?.artist || sound.user?.username,
+        album: sound.publisher_metadata?.album_title,
+        seconds: sound.duration ? Math.round(sound.duration / 1000) : undefined,
+        type: "track",
+      });
+    }
+
+    const playlist = hydration.find(item => item.hydratable === "playlist")?.data;
+    if (playlist) {
+      return this.result({
+        title: playlist.title,
+        artist: playlist.user?.username,
+        album: playlist.is_album || playlist.set_type === "album" ? playlist.title : undefined,
+        seconds: playlist.duration ? Math.round(playlist.duration / 1000) : undefined,
+        type: playlist.is_album || playlist.set_type === "album" ? "album" : "playlist",
+      });
+    }
+
+    throw new Error("Could not find track data in SoundCloud page");
+  }
+}
+
+class BandcampClient extends MusicClient {
+  readonly name = "bandcamp" as const;
+  displayName = "Bandcamp";
+
+  matches = (url: string) => {
+    return /^https:\/\/[\w-]+\.bandcamp\.com\/(track|album)\/[\w-]+/.test(url);
+  };
+
+  async fetchMetadata(
+    url: string,
+    signal?: AbortSignal
+  ): Promise<Record<string, string | undefined>> {
+    const doc = await this.fetchPage(url, signal);
+    const script = doc.querySelector('script[type="application/ld+json"]')?.textContent;
+    if (!script) {
+      throw new Error("Could not find release data in Bandcamp page");
+    }
+
+    const data = JSON.parse(script);
+    const isAlbum = data["@type"] === "MusicAlbum";
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any -- schema.org track list items
+    const tracks: any[] = data.track?.itemListElement ?? [];
+    const seconds = isAlbum
+      ? tracks.reduce((total, entry) => total + (parseIsoDuration(entry.item?.duration) ?? 0), 0)
+      : parseIsoDuration(data.duration);
+
+    return this.result({
+      title: data.name,
+      artist: data.byArtist?.name,
+      album: isAlbum ? data.name : data.inAlbum?.name,
+      seconds: seconds,
+      type: isAlbum ? "album" : "track",
+    });
+  }
+}
+
+const APPLE_MUSIC_LINK = /^https:\/\/music\.apple\.com\/([a-z]{2})\/(album|song|playlist)\/(?:[^/]+\/)?([\w.-]+)/;
+
+class AppleMusicClient extends MusicClient {
+  readonly name = "apple-music" as const;
+  displayName = "Apple Music";
+
+  matches = (url: string) => {
+    return APPLE_MUSIC_LINK.test(url);
+  };
+
+  async fetchMetadata(
+    url: string,
+    signal?: AbortSignal
+  ): Promise<Record<string, string | undefined>> {
+    const [, country, kind, id] = normalizeUrl(url).match(APPLE_MUSIC_LINK)!;
+
+    // Playlists are not in the iTunes catalog, so read them from the page
+    if (kind === "playlist") {
+      const doc = await this.fetchPage(url, signal);
+      return this.result({
+        title: this.getMeta(doc, "apple:title") ?? this.getMeta(doc, "og:title")?.replace(/ on Apple Music$/, ""),
+        artist: this.getMeta(doc, "apple:description")?.match(/ by (.+?)[.,]/)?.[1],
+        type: "playlist",
+      });
+    }
+
+    // Album links to a single song carry the song's id as ?i=
+    const trackId = new URL(url).searchParams.get("i");
+    const lookupId = trackId ?? id;
+    const response = await request({
+      url: `https://itunes.apple.com/lookup?id=${encodeURIComponent(lookupId)}&country=${country}&entity=song`,
+      method: "GET"
+    }, signal);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any -- iTunes lookup results have no typed schema
+    const results: any[] = JSON.parse(response.text).results ?? [];
+    const item = results[0];
+
+    if (!item) {
+      throw new Error("Apple Music item not found");
+    }
+
+    // Album lookups list the album's songs after the album itself
+    const isTrack = item.wrapperType === "track";
+    const millis = isTrack
+      ? item.trackTimeMillis
+      : results.slice(1).reduce((total, song) => total + (song.trackTimeMillis ?? 0), 0);
+
+    return this.result({
+      title: isTrack ? item.trackName : item.collectionName,
+      artist: item.artistName,
+      album: item.collectionName,
+      seconds: millis ? Math.round(millis / 1000) : undefined,
+      type: isTrack ? "track" : "album",
+    });
+  }
+}
+
 class ImageClient extends Client {
   readonly name = "image" as const;
   displayName = "Image";
   defaultFormat = "![{title}]";
+  defaultCacheTtlHours = 24 * 30;
 
   getAvailableVariables(): string[] {
-    return ["title", "url"];
+    return ["title", "width", "height", "size", "mime", "url"];
   }
 
   matches = (url: string) => {
@@ -323,41 +799,132 @@ class ImageClient extends Client {
   };
 
   async fetchMetadata(
-    url: string
+    url: string,
+    signal?: AbortSignal
   ): Promise<Record<string, string | undefined>> {
     const filename = url.substring(url.lastIndexOf("/") + 1);
+    const title = filename ? escapeMarkdownChars(decodeURIComponent(filename)) : "image";
+
+    // Only the start of the image is requested; servers that ignore the range send all of it
+    let response: RequestUrlResponse;
+    try {
+      response = await request({
+        url: url,
+        method: "GET",
+        headers: { "Range": `bytes=0-${IMAGE_HEADER_BYTES - 1}` },
+        throw: false
+      }, signal);
+    } catch (error) {
+      if (error instanceof CancelledError) throw error;
+      return { title };
+    }
+    if (response.status >= 400) {
+      return { title };
+    }
+
+    const header = (name: string) => Object.entries(response.headers)
+      .find(([key]) => key.toLowerCase() === name)?.[1];
+    const info = readImageHeader(new Uint8Array(response.arrayBuffer));
+    const total = header("content-range")?.match(/\/(\d+)$/)?.[1]
+      ?? (response.status === 200 ? header("content-length") ?? String(response.arrayBuffer.byteLength) : undefined);
+    const contentType = header("content-type")?.split(";")[0].trim();
+
     return {
-      title: filename ? escapeMarkdownChars(decodeURIComponent(filename)) : "image",
+      title: title,
+      width: info?.width ? String(info.width) : undefined,
+      height: info?.height ? String(info.height) : undefined,
+      size: total ? formatFileSize(Number(total)) : undefined,
+      mime: contentType?.startsWith("image/") ? contentType : info?.mime,
     };
   }
 }
 
+/**
+ * A tweet as read by one of `TwitterClient`'s strategies. Fields a strategy
+ * cannot see are left undefined.
+ */
+interface Tweet {
+  text?: string;
+  author?: string;
+  name?: string;
+  likes?: number;
+  retweets?: number;
+  replies?: number;
+  views?: number;
+  createdAt?: string;
+  quotedText?: string;
+  quotedAuthor?: string;
+  mediaCount?: number;
+  replyToId?: string;
+  replyToAuthor?: string;
+}
+
+/** Reads one tweet by ID. */
+type TweetStrategy = (tweetId: string, signal?: AbortSignal) => Promise<Tweet>;
+
+/** How many parent tweets are fetched at most to find a tweet's position in a thread. */
+const MAX_THREAD_DEPTH = 10;
+
+/** How long finding the thread position may take before the tweet is formatted without it. */
+const THREAD_POSITION_BUDGET_MS = 3000;
+
+/** How long a guest token is reused; X expires them after a few hours. */
+const GUEST_TOKEN_TTL_MS = 60 * 60 * 1000;
+
 class TwitterClient extends Client {
   readonly name = "twitter" as const;
   displayName = "Twitter/X";
   defaultFormat = "[{text}] - @{author}";
+  defaultCacheTtlHours = 24;
 
   private queryId: string | null = null;
   private bearerToken: string | null = null;
+  private guestToken: { token: string; expires: number } | null = null;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any -- dynamic feature flags from external API config
   private features: any = null;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any -- dynamic field toggles from external API config
   private fieldToggles: any = null;
 
+  /**
+   * Ways of reading a tweet, tried in order until one succeeds. The GraphQL API
+   * has the most detail but depends on an unofficial query ID and guest tokens;
+   * the embed and oEmbed endpoints are public but return less.
+   */
+  private strategies: [string, TweetStrategy][] = [
+    ["GraphQL API", (tweetId, signal) => this.fetchFromGraphql(tweetId, signal)],
+    ["embed", (tweetId, signal) => this.fetchFromEmbed(tweetId, signal)],
+    ["oEmbed", (tweetId, signal) => this.fetchFromOEmbed(tweetId, signal)],
+  ];
+
   getAvailableVariables(): string[] {
-    return ["text", "author", "name", "likes", "retweets", "replies", "views", "created_at", "url"];
+    return [
+      "text",
+      "author",
+      "name",
+      "likes",
+      "retweets",
+      "replies",
+      "views",
+      "created_at",
+      "quoted_text",
+      "quoted_author",
+      "media_count",
+      "is_reply",
+      "thread_position",
+      "url",
+    ];
   }
 
   matches = (url: string) => {
     return /^https:\/\/(twitter\.com|x\.com)\/\w+\/status\/\d+/.test(url);
   };
 
-  async loadTwitterAPIConfig(): Promise<void> {
+  async loadTwitterAPIConfig(signal?: AbortSignal): Promise<void> {
     try {
-      const graphqlResponse = await requestUrl({
+      const graphqlResponse = await request({
         url: "https://raw.githubusercontent.com/fa0311/TwitterInternalAPIDocument/master/docs/json/GraphQL.json",
         method: "GET"
-      });
+      }, signal);
       const graphqlData = JSON.parse(graphqlResponse.text);
 
       // eslint-disable-next-line @typescript-eslint/no-explicit-any -- external API response has no typed schema
@@ -388,50 +955,136 @@ class TwitterClient extends Client {
         }
       }
 
-      const apiResponse = await requestUrl({
+      const apiResponse = await request({
         url: "https://raw.githubusercontent.com/fa0311/TwitterInternalAPIDocument/master/docs/deck/json/API.json",
         method: "GET"
-      });
+      }, signal);
       const apiData = JSON.parse(apiResponse.text);
       this.bearerToken = apiData.header?.authorization;
 
     } catch (error) {
+      if (error instanceof CancelledError) throw error;
       console.error("Failed to load Twitter API config from GitHub:", error);
       this.queryId = "jGOLj4UQ6l5z9uUKfhqEHA";
       this.bearerToken = "Bearer AAAAAAAAAAAAAAAAAAAAANRILgAAAAAAnNwIzUejRCOuH5E6I8xnZz4puTs%3D1Zv7ttfk8LF81IUq16cHjhLTvJu4FA33AGWWjCpTnA";
     }
   }
 
-  async getGuestToken(): Promise<string> {
+  /**
+   * Activates a guest token, or reuses the one activated earlier in this session.
+   */
+  async getGuestToken(signal?: AbortSignal): Promise<string> {
+    if (this.guestToken && this.guestToken.expires > Date.now()) {
+      return this.guestToken.token;
+    }
+
     if (!this.bearerToken) {
-      await this.loadTwitterAPIConfig();
+      await this.loadTwitterAPIConfig(signal);
     }
 
-    const response = await requestUrl({
+    const response = await request({
       url: "https://api.x.com/1.1/guest/activate.json",
       method: "POST",
       headers: {
         "authorization": this.bearerToken!
       }
-    });
+    }, signal);
 
     const data = JSON.parse(response.text);
+    this.guestToken = { token: data.guest_token, expires: Date.now() + GUEST_TOKEN_TTL_MS };
     return data.guest_token;
   }
 
   async fetchMetadata(
-    url: string
+    url: string,
+    signal?: AbortSignal
   ): Promise<Record<string, string | undefined>> {
-    if (!this.queryId || !this.bearerToken) {
-      await this.loadTwitterAPIConfig();
-    }
-
     const tweetId = this.extractTweetId(url);
     if (!tweetId) {
       throw new Error("Could not extract tweet ID from URL");
     }
 
-    const guestToken = await this.getGuestToken();
+    const { tweet, strategy } = await this.fetchTweet(tweetId, signal);
+    const threadPosition = await this.getThreadPosition(tweet, strategy, signal);
+
+    return {
+      text: tweet.text ? escapeMarkdownChars(tweet.text) : undefined,
+      author: tweet.author ? escapeMarkdownChars(tweet.author) : undefined,
+      name: tweet.name ? escapeMarkdownChars(tweet.name) : undefined,
+      likes: tweet.likes?.toString(),
+      retweets: tweet.retweets?.toString(),
+      replies: tweet.replies?.toString(),
+      views: tweet.views ? tweet.views.toLocaleString() : undefined,
+      created_at: tweet.createdAt ? escapeMarkdownChars(tweet.createdAt) : undefined,
+      quoted_text: tweet.quotedText ? escapeMarkdownChars(tweet.quotedText) : undefined,
+      quoted_author: tweet.quotedAuthor ? escapeMarkdownChars(tweet.quotedAuthor) : undefined,
+      media_count: tweet.mediaCount !== undefined ? String(tweet.mediaCount) : undefined,
+      is_reply: tweet.replyToId ? "yes" : undefined,
+      thread_position: threadPosition ? String(threadPosition) : undefined,
+    };
+  }
+
+  /**
+   * Reads a tweet with the first strategy that succeeds.
+   * @returns The tweet, and the strategy that read it.
+   * @throws If every strategy fails, with each strategy's error.
+   */
+  async fetchTweet(tweetId: string, signal?: AbortSignal): Promise<{ tweet: Tweet; strategy: TweetStrategy }> {
+    const errors: string[] = [];
+    for (const [name, strategy] of this.strategies) {
+      try {
+        return { tweet: await strategy(tweetId, signal), strategy: strategy };
+      } catch (error) {
+        if (error instanceof CancelledError) throw error;
+        errors.push(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    throw new Error(`Could not fetch tweet (${errors.join("; ")})`);
+  }
+
+  /**
+   * Finds where a tweet sits in a thread, i.e. a chain of replies by the same author,
+   * by walking up its parents. This is best-effort: it gives up after
+   * `THREAD_POSITION_BUDGET_MS` so the tweet itself still formats in time.
+   * @param strategy - The strategy that read the tweet, reused for its parents.
+   * @returns The 1-based position, or undefined if the tweet does not continue a thread
+   * or its start could not be reached.
+   */
+  async getThreadPosition(tweet: Tweet, strategy: TweetStrategy, signal?: AbortSignal): Promise<number | undefined> {
+    const author = tweet.author?.toLowerCase();
+    if (!tweet.replyToId || !author || tweet.replyToAuthor?.toLowerCase() !== author) {
+      return undefined;
+    }
+
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    signal?.addEventListener("abort", abort, { once: true });
+    const timer = window.setTimeout(abort, THREAD_POSITION_BUDGET_MS);
+
+    let current = tweet;
+    let position = 1;
+    try {
+      while (current.replyToId && current.replyToAuthor?.toLowerCase() === author) {
+        if (position > MAX_THREAD_DEPTH) return undefined;
+        current = await raceSignal(strategy(current.replyToId, controller.signal), controller.signal);
+        position++;
+      }
+      return position;
+    } catch {
+      if (signal?.aborted) throw new CancelledError();
+      return undefined;
+    } finally {
+      window.clearTimeout(timer);
+      signal?.removeEventListener("abort", abort);
+    }
+  }
+
+  async fetchFromGraphql(tweetId: string, signal?: AbortSignal): Promise<Tweet> {
+    if (!this.queryId || !this.bearerToken) {
+      await this.loadTwitterAPIConfig(signal);
+    }
+
+    const guestToken = await this.getGuestToken(signal);
 
     const variables = {
       tweetId: tweetId,
@@ -442,37 +1095,116 @@ class TwitterClient extends Client {
 
     const apiUrl = `https://x.com/i/api/graphql/${this.queryId}/TweetResultByRestId?variables=${encodeURIComponent(JSON.stringify(variables))}&features=${encodeURIComponent(JSON.stringify(this.features))}&fieldToggles=${encodeURIComponent(JSON.stringify(this.fieldToggles))}`;
 
-    const response = await requestUrl({
-      url: apiUrl,
-      method: "GET",
-      headers: {
-        "authorization": this.bearerToken!,
-        "x-guest-token": guestToken,
-        "x-twitter-active-user": "yes",
-        "x-twitter-client-language": "en"
-      }
-    });
+    let response: RequestUrlResponse;
+    try {
+      response = await request({
+        url: apiUrl,
+        method: "GET",
+        headers: {
+          "authorization": this.bearerToken!,
+          "x-guest-token": guestToken,
+          "x-twitter-active-user": "yes",
+          "x-twitter-client-language": "en"
+        }
+      }, signal);
+    } catch (error) {
+      // The token may have been rejected; activate a new one next time
+      if (!(error instanceof CancelledError)) this.guestToken = null;
+      throw error;
+    }
 
     const data = JSON.parse(response.text);
-    const result = data?.data?.tweetResult?.result;
+    const result = this.unwrapGraphqlTweet(data?.data?.tweetResult?.result);
 
-    if (!result) {
+    if (!result?.legacy) {
       throw new Error("Tweet result not found");
     }
 
     const legacy = result.legacy;
-    const username = result.core.user_results.result.core.screen_name;
-    const authorName = result.core.user_results.result.core.name;
+    const user = result.core?.user_results?.result;
+    const quoted = this.unwrapGraphqlTweet(result.quoted_status_result?.result);
+
+    return {
+      text: legacy.full_text,
+      author: user?.core?.screen_name ?? user?.legacy?.screen_name,
+      name: user?.core?.name ?? user?.legacy?.name,
+      likes: legacy.favorite_count,
+      retweets: legacy.retweet_count,
+      replies: legacy.reply_count,
+      views: result.views?.count ? parseInt(result.views.count) : undefined,
+      createdAt: legacy.created_at,
+      quotedText: quoted?.legacy?.full_text,
+      quotedAuthor: quoted?.core?.user_results?.result?.core?.screen_name
+        ?? quoted?.core?.user_results?.result?.legacy?.screen_name,
+      mediaCount: legacy.extended_entities?.media?.length ?? 0,
+      replyToId: legacy.in_reply_to_status_id_str ?? undefined,
+      replyToAuthor: legacy.in_reply_to_screen_name ?? undefined,
+    };
+  }
+
+  /**
+   * Tweets with limited visibility wrap the tweet in a `TweetWithVisibilityResults` object.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- external API response has no typed schema
+  unwrapGraphqlTweet(result: any): any {
+    return result?.__typename === "TweetWithVisibilityResults" ? result.tweet : result;
+  }
+
+  /**
+   * Reads a tweet from the syndication endpoint behind embedded tweets.
+   */
+  async fetchFromEmbed(tweetId: string, signal?: AbortSignal): Promise<Tweet> {
+    // The endpoint expects a token derived from the tweet ID, as computed by the embed script
+    const token = ((Number(tweetId) / 1e15) * Math.PI).toString(6 ** 2).replace(/(0+|\.)/g, "");
+    const response = await request({
+      url: `https://cdn.syndication.twimg.com/tweet-result?id=${tweetId}&token=${token}&lang=en`,
+      method: "GET"
+    }, signal);
+
+    const data = JSON.parse(response.text);
+    if (!data?.text || data.__typename === "TweetTombstone") {
+      throw new Error("Tweet not found");
+    }
+
+    return {
+      text: data.text,
+      author: data.user?.screen_name,
+      name: data.user?.name,
+      likes: data.favorite_count,
+      replies: data.conversation_count,
+      createdAt: data.created_at,
+      quotedText: data.quoted_tweet?.text,
+      quotedAuthor: data.quoted_tweet?.user?.screen_name,
+      mediaCount: data.mediaDetails?.length ?? 0,
+      replyToId: data.in_reply_to_status_id_str,
+      replyToAuthor: data.in_reply_to_screen_name,
+    };
+  }
+
+  /**
+   * Reads a tweet through the public oEmbed endpoint, which only has the text,
+   * author and date.
+   */
+  async fetchFromOEmbed(tweetId: string, signal?: AbortSignal): Promise<Tweet> {
+    const tweetUrl = `https://twitter.com/i/status/${tweetId}`;
+    const response = await request({
+      url: `https://publish.twitter.com/oembed?url=${encodeURIComponent(tweetUrl)}&omit_script=true&dnt=true`,
+      method: "GET"
+    }, signal);
+
+    const data = JSON.parse(response.text);
+    const doc = new DOMParser().parseFromString(data?.html ?? "", "text/html");
+    const text = doc.querySelector("blockquote p")?.textContent?.trim();
+    if (!text) {
+      throw new Error("Tweet not found");
+    }
 
+    const links = doc.querySelectorAll("blockquote > a");
     return {
-      text: legacy?.full_text ? escapeMarkdownChars(legacy.full_text) : undefined,
-      author: username ? escapeMarkdownChars(username) : undefined,
-      name: authorName ? escapeMarkdownChars(authorName) : undefined,
-      likes: legacy?.favorite_count,
-      retweets: legacy?.retweet_count,
-      replies: legacy?.reply_count,
-      views: result.views?.count ? parseInt(result.views.count).toLocaleString() : undefined,
-      created_at: legacy?.created_at ? escapeMarkdownChars(legacy.created_at) : undefined
+      text: text,
+      author: data.author_url?.match(/\/(\w+)\/?$/)?.[1],
+      name: data.author_name,
+      createdAt: links[links.length - 1]?.textContent?.trim() || undefined,
     };
   }
 
@@ -482,46 +1214,172 @@ class TwitterClient extends Client {
   }
 }
 
-class RedditClient extends Client {
+const REDDIT_POST = /^https:\/\/(?:(?:old|new|np|m)\.)?reddit\.com\/(?:(?:r|u|user)\/[\w-]+\/)?comments\/(\w+)(?:\/[^/?#]*(?:\/(\w+))?)?\/?(?:[?#]|$)/;
+const REDDIT_SHORT_LINK = /^https:\/\/redd\.it\/(\w+)\/?(?:[?#]|$)/;
+const REDDIT_SHARE_LINK = /^https:\/\/(?:(?:old|new|np|m)\.)?reddit\.com\/r\/[\w-]+\/s\/\w+/;
+const REDDIT_SUBREDDIT = /^https:\/\/(?:(?:old|new|np|m)\.)?reddit\.com\/r\/([\w-]+)\/?(?:(?:hot|new|top|rising|controversial)\/?)?(?:[?#]|$)/;
+const REDDIT_USER = /^https:\/\/(?:(?:old|new|np|m)\.)?reddit\.com\/(?:u|user)\/([\w-]+)\/?(?:(?:overview|submitted|comments)\/?)?(?:[?#]|$)/;
+
+/**
+ * Shortens text to about `length` characters at a word boundary, collapsing whitespace.
+ */
+function excerpt(text: string, length = 200): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  if (flat.length <= length) return flat;
+  const cut = flat.substring(0, length);
+  return cut.substring(0, cut.lastIndexOf(" ") > 0 ? cut.lastIndexOf(" ") : length).trimEnd() + "…";
+}
+
+/**
+ * Shared request handling for the Reddit clients.
+ */
+abstract class RedditApiClient extends Client {
+  defaultCacheTtlHours = 24;
+
+  async fetchJson(path: string, signal?: AbortSignal) {
+    const response = await request({
+      url: `https://www.reddit.com${path}`,
+      method: "GET",
+      headers: {
+        "User-Agent": "Obsidian Smart Link Formatter"
+      }
+    }, signal);
+    return JSON.parse(response.text);
+  }
+}
+
+class RedditClient extends RedditApiClient {
   readonly name = "reddit" as const;
   displayName = "Reddit";
   defaultFormat = "[{title}] - r/{subreddit}";
 
   getAvailableVariables(): string[] {
-    return ["title", "subreddit", "author", "upvotes", "comments", "created_at", "url"];
+    return ["title", "subreddit", "author", "upvotes", "comments", "created_at", "score", "body", "is_comment", "url"];
   }
 
   matches = (url: string) => {
-    return /^https:\/\/reddit\.com\/r\/[\w-]+\/comments\//.test(url);
+    return REDDIT_POST.test(url) || REDDIT_SHORT_LINK.test(url) || REDDIT_SHARE_LINK.test(url);
   };
 
   async fetchMetadata(
-    url: string
+    url: string,
+    signal?: AbortSignal
   ): Promise<Record<string, string | undefined>> {
-    const jsonUrl = url.replace(/\/$/, '') + '.json';
-
-    const response = await requestUrl({
-      url: jsonUrl,
-      method: "GET",
-      headers: {
-        "User-Agent": "Obsidian Smart Link Formatter"
-      }
-    });
-
-    const data = JSON.parse(response.text);
+    const [postId, commentId] = await this.resolvePost(normalizeUrl(url), signal);
+    const data = await this.fetchJson(
+      commentId ? `/comments/${postId}.json?comment=${commentId}&depth=1` : `/comments/${postId}.json`,
+      signal
+    );
     const postData = data[0]?.data?.children?.[0]?.data;
 
     if (!postData) {
       throw new Error("Could not find post data");
     }
 
+    // Comment permalinks describe the comment, in the context of its post
+    const commentData = commentId ? data[1]?.data?.children?.[0]?.data : undefined;
+    if (commentId && !commentData?.body) {
+      throw new Error("Could not find comment data");
+    }
+    const item = commentData ?? postData;
+    const body = commentData ? commentData.body : postData.selftext;
+
     return {
       title: postData.title ? escapeMarkdownChars(postData.title) : undefined,
       subreddit: postData.subreddit ? escapeMarkdownChars(postData.subreddit) : undefined,
-      author: postData.author ? escapeMarkdownChars(postData.author) : undefined,
+      author: item.author ? escapeMarkdownChars(item.author) : undefined,
       upvotes: postData.ups ? postData.ups.toLocaleString() : undefined,
       comments: postData.num_comments ? postData.num_comments.toLocaleString() : undefined,
-      created_at: postData.created_utc ? new Date(postData.created_utc * 1000).toISOString() : undefined
+      created_at: item.created_utc ? new Date(item.created_utc * 1000).toISOString() : undefined,
+      score: typeof item.score === "number" ? item.score.toLocaleString() : undefined,
+      body: body ? escapeMarkdownChars(excerpt(body)) : undefined,
+      is_comment: commentData ? "yes" : undefined,
+    };
+  }
+
+  /**
+   * Finds the post and comment ids of a link. `/s/` share links only redirect
+   * to the post, so they are resolved through the page's canonical URL.
+   * @returns The post id and, for comment permalinks, the comment id.
+   */
+  private async resolvePost(url: string, signal?: AbortSignal): Promise<[string, string | undefined]> {
+    const shortLink = url.match(REDDIT_SHORT_LINK);
+    if (shortLink) return [shortLink[1], undefined];
+
+    let post = url.match(REDDIT_POST);
+    if (!post && REDDIT_SHARE_LINK.test(url)) {
+      const response = await request({ url: url, method: "GET" }, signal);
+      const doc = new DOMParser().parseFromString(response.text, "text/html");
+      const canonical = doc.querySelector('link[rel="canonical"]')?.getAttribute("href")
+        ?? doc.querySelector('meta[property="og:url"]')?.getAttribute("content");
+      post = canonical ? normalizeUrl(canonical).match(REDDIT_POST) : null;
+    }
+    if (!post) {
+      throw new Error("Could not resolve Reddit link");
+    }
+    return [post[1], post[2]];
+  }
+}
+
+class RedditSubredditClient extends RedditApiClient {
+  readonly name = "reddit-subreddit" as const;
+  displayName = "Reddit subreddit";
+  defaultFormat = "[r/{subreddit}]{subscribers? ({subscribers} members):}";
+
+  getAvailableVariables(): string[] {
+    return ["subreddit", "title", "subscribers", "public_description", "url"];
+  }
+
+  matches = (url: string) => {
+    return REDDIT_SUBREDDIT.test(url);
+  };
+
+  async fetchMetadata(
+    url: string,
+    signal?: AbortSignal
+  ): Promise<Record<string, string | undefined>> {
+    const [, subreddit] = normalizeUrl(url).match(REDDIT_SUBREDDIT)!;
+    const about = (await this.fetchJson(`/r/${subreddit}/about.json`, signal))?.data;
+    if (!about?.display_name) {
+      throw new Error("Could not find subreddit data");
+    }
+
+    return {
+      subreddit: escapeMarkdownChars(about.display_name),
+      title: about.title ? escapeMarkdownChars(about.title) : undefined,
+      subscribers: typeof about.subscribers === "number" ? about.subscribers.toLocaleString() : undefined,
+      public_description: about.public_description ? escapeMarkdownChars(about.public_description.trim()) : undefined,
+    };
+  }
+}
+
+class RedditUserClient extends RedditApiClient {
+  readonly name = "reddit-user" as const;
+  displayName = "Reddit user";
+  defaultFormat = "[u/{username}]";
+
+  getAvailableVariables(): string[] {
+    return ["username", "karma", "created_at", "url"];
+  }
+
+  matches = (url: string) => {
+    return REDDIT_USER.test(url);
+  };
+
+  async fetchMetadata(
+    url: string,
+    signal?: AbortSignal
+  ): Promise<Record<string, string | undefined>> {
+    const [, username] = normalizeUrl(url).match(REDDIT_USER)!;
+    const about = (await this.fetchJson(`/user/${username}/about.json`, signal))?.data;
+    if (!about?.name) {
+      throw new Error("Could not find user data");
+    }
+
+    return {
+      username: escapeMarkdownChars(about.name),
+      karma: typeof about.total_karma === "number" ? about.total_karma.toLocaleString() : undefined,
+      created_at: about.created_utc ? new Date(about.created_utc * 1000).toISOString() : undefined,
     };
   }
 }
@@ -540,9 +1398,10 @@ class GitHubClient extends Client {
   };
 
   async fetchMetadata(
-    url: string
+    url: string,
+    signal?: AbortSignal
   ): Promise<Record<string, string | undefined>> {
-    const response = await requestUrl({ url: url, method: "GET" });
+    const response = await request({ url: url, method: "GET" }, signal);
     const html = response.text;
 
     const titleMatch = html.match(
@@ -566,35 +1425,1446 @@ class GitHubClient extends Client {
 }
 
 /**
- * Fallback client that matches every link and simply formats the title.
+ * Shared URL parsing and REST API access for the GitHub clients that link below a repository.
  */
-class DefaultClient extends Client {
-  readonly name = "default" as const;
-  displayName = "Default";
-  defaultFormat = "[{title}]";
+abstract class GitHubApiClient extends Client {
+  /**
+   * Reads the owner and repository from a github.com URL.
+   */
+  parseRepo(url: string): { owner: string; repo: string } {
+    const match = normalizeUrl(url).match(/^https:\/\/github\.com\/([\w.-]+)\/([\w.-]+)/);
+    if (!match) {
+      throw new Error("Could not extract repository from URL");
+    }
+    return { owner: match[1], repo: match[2] };
+  }
+
+  /**
+   * Fetches a path of the GitHub REST API, e.g. `/repos/owner/repo/issues/1`.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- GitHub API responses have no typed schema
+  async fetchApi(path: string, signal?: AbortSignal): Promise<any> {
+    const response = await request({
+      url: `https://api.github.com${path}`,
+      method: "GET",
+      headers: { "Accept": "application/vnd.github+json" },
+      throw: false,
+    }, signal);
+
+    if (response.status === 403 || response.status === 429) {
+      throw new Error("GitHub API rate limit exceeded");
+    }
+    if (response.status >= 400) {
+      throw new Error(`GitHub API returned ${response.status}`);
+    }
+    return JSON.parse(response.text);
+  }
+
+  /**
+   * Escapes an optional string value from an API response.
+   */
+  escape(value: unknown): string | undefined {
+    return typeof value === "string" && value ? escapeMarkdownChars(value) : undefined;
+  }
+}
+
+class GitHubIssueClient extends GitHubApiClient {
+  readonly name = "github-issue" as const;
+  displayName = "GitHub issue";
+  defaultFormat = "[{title}] ({owner}/{repo}#{number})";
+  defaultCacheTtlHours = 24;
+
+  getAvailableVariables(): string[] {
+    return ["owner", "repo", "number", "title", "state", "author", "labels", "comments", "created_at", "url"];
+  }
+
+  matches = (url: string) => {
+    return /^https:\/\/github\.com\/[\w.-]+\/[\w.-]+\/issues\/\d+/.test(url);
+  };
+
+  async fetchMetadata(
+    url: string,
+    signal?: AbortSignal
+  ): Promise<Record<string, string | undefined>> {
+    const { owner, repo } = this.parseRepo(url);
+    const number = url.match(/\/issues\/(\d+)/)![1];
+    const issue = await this.fetchApi(`/repos/${owner}/${repo}/issues/${number}`, signal);
+
+    return {
+      owner: escapeMarkdownChars(owner),
+      repo: escapeMarkdownChars(repo),
+      number: number,
+      title: this.escape(issue.title),
+      state: issue.state_reason === "not_planned" ? "not planned" : issue.state,
+      author: this.escape(issue.user?.login),
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any -- GitHub label objects
+      labels: this.escape(issue.labels?.map((label: any) => label.name).join(", ")),
+      comments: issue.comments !== undefined ? String(issue.comments) : undefined,
+      created_at: issue.created_at,
+    };
+  }
+}
+
+class GitHubPullRequestClient extends GitHubApiClient {
+  readonly name = "github-pull" as const;
+  displayName = "GitHub pull request";
+  defaultFormat = "[{title}] ({owner}/{repo}#{number})";
+  defaultCacheTtlHours = 24;
+
+  getAvailableVariables(): string[] {
+    return ["owner", "repo", "number", "title", "state", "author", "labels", "comments", "branch", "created_at", "url"];
+  }
+
+  matches = (url: string) => {
+    return /^https:\/\/github\.com\/[\w.-]+\/[\w.-]+\/pull\/\d+/.test(url);
+  };
+
+  async fetchMetadata(
+    url: string,
+    signal?: AbortSignal
+  ): Promise<Record<string, string | undefined>> {
+    const { owner, repo } = this.parseRepo(url);
+    const number = url.match(/\/pull\/(\d+)/)![1];
+    const pull = await this.fetchApi(`/repos/${owner}/${repo}/pulls/${number}`, signal);
+
+    let state = pull.state;
+    if (pull.merged_at) {
+      state = "merged";
+    } else if (pull.draft && pull.state === "open") {
+      state = "draft";
+    }
+
+    return {
+      owner: escapeMarkdownChars(owner),
+      repo: escapeMarkdownChars(repo),
+      number: number,
+      title: this.escape(pull.title),
+      state: state,
+      author: this.escape(pull.user?.login),
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any -- GitHub label objects
+      labels: this.escape(pull.labels?.map((label: any) => label.name).join(", ")),
+      comments: pull.comments !== undefined ? String(pull.comments + (pull.review_comments ?? 0)) : undefined,
+      branch: this.escape(pull.head?.ref),
+      created_at: pull.created_at,
+    };
+  }
+}
+
+class GitHubCommitClient extends GitHubApiClient {
+  readonly name = "github-commit" as const;
+  displayName = "GitHub commit";
+  defaultFormat = "[{title}] ({owner}/{repo}@{sha})";
+  defaultCacheTtlHours = 24 * 30;
+
+  getAvailableVariables(): string[] {
+    return ["owner", "repo", "sha", "title", "message", "author", "created_at", "url"];
+  }
+
+  matches = (url: string) => {
+    return /^https:\/\/github\.com\/[\w.-]+\/[\w.-]+\/(pull\/\d+\/)?commits?\/[0-9a-f]{7,40}/.test(url);
+  };
+
+  async fetchMetadata(
+    url: string,
+    signal?: AbortSignal
+  ): Promise<Record<string, string | undefined>> {
+    const { owner, repo } = this.parseRepo(url);
+    const ref = url.match(/\/commits?\/([0-9a-f]{7,40})/)![1];
+    const commit = await this.fetchApi(`/repos/${owner}/${repo}/commits/${ref}`, signal);
+    const message: string = commit.commit?.message ?? "";
+
+    return {
+      owner: escapeMarkdownChars(owner),
+      repo: escapeMarkdownChars(repo),
+      sha: (commit.sha ?? ref).substring(0, 7),
+      title: this.escape(message.split("\n")[0].trim()),
+      message: this.escape(message.trim()),
+      author: this.escape(commit.author?.login ?? commit.commit?.author?.name),
+      created_at: commit.commit?.author?.date,
+    };
+  }
+}
+
+class GitHubReleaseClient extends GitHubApiClient {
+  readonly name = "github-release" as const;
+  displayName = "GitHub release";
+  defaultFormat = "[{owner}/{repo} {tag}]";
+
+  getAvailableVariables(): string[] {
+    return ["owner", "repo", "tag", "title", "author", "prerelease", "created_at", "url"];
+  }
+
+  matches = (url: string) => {
+    return /^https:\/\/github\.com\/[\w.-]+\/[\w.-]+\/releases\/tag\/[^/?#]+/.test(url);
+  };
+
+  async fetchMetadata(
+    url: string,
+    signal?: AbortSignal
+  ): Promise<Record<string, string | undefined>> {
+    const { owner, repo } = this.parseRepo(url);
+    const tag = decodeURIComponent(url.match(/\/releases\/tag\/([^/?#]+)/)![1]);
+    const release = await this.fetchApi(`/repos/${owner}/${repo}/releases/tags/${encodeURIComponent(tag)}`, signal);
+
+    return {
+      owner: escapeMarkdownChars(owner),
+      repo: escapeMarkdownChars(repo),
+      tag: escapeMarkdownChars(tag),
+      title: this.escape(release.name) ?? escapeMarkdownChars(tag),
+      author: this.escape(release.author?.login),
+      prerelease: release.prerelease ? "pre-release" : undefined,
+      created_at: release.published_at ?? release.created_at,
+    };
+  }
+}
+
+/**
+ * Formats links to files, and line ranges within them, from the URL alone.
+ */
+class GitHubFileClient extends GitHubApiClient {
+  readonly name = "github-file" as const;
+  displayName = "GitHub file";
+  defaultFormat = "[{path}{lines? L{lines}:}] ({owner}/{repo})";
+  defaultCacheTtlHours = 24 * 30;
 
   getAvailableVariables(): string[] {
-      return ["title", "url"];
+    return ["owner", "repo", "ref", "path", "filename", "lines", "url"];
   }
 
+  matches = (url: string) => {
+    return /^https:\/\/github\.com\/[\w.-]+\/[\w.-]+\/(blob|tree)\/[^/]+\/[^?#]+/.test(url);
+  };
+
   async fetchMetadata(url: string): Promise<Record<string, string | undefined>> {
-      const title = await getPageTitle(url);
-      return { title: title };
+    const { owner, repo } = this.parseRepo(url);
+    const [, ref, rawPath] = url.match(/\/(?:blob|tree)\/([^/]+)\/([^?#]+)/)!;
+    const path = decodeURIComponent(rawPath);
+
+    let lines: string | undefined;
+    const range = url.match(/#L(\d+)(?:C\d+)?(?:-L(\d+))?/);
+    if (range) {
+      lines = range[2] && range[2] !== range[1] ? `${range[1]}-${range[2]}` : range[1];
+    }
+
+    return {
+      owner: escapeMarkdownChars(owner),
+      repo: escapeMarkdownChars(repo),
+      ref: escapeMarkdownChars(decodeURIComponent(ref)),
+      path: escapeMarkdownChars(path),
+      filename: escapeMarkdownChars(path.substring(path.lastIndexOf("/") + 1)),
+      lines: lines,
+    };
   }
+}
 
-  matches(): boolean {
-      return true;
+class HackerNewsClient extends Client {
+  readonly name = "hackernews" as const;
+  displayName = "Hacker News";
+  defaultFormat = "[{title}] ({points} pts, {comments} comments)";
+  defaultCacheTtlHours = 24;
+
+  getAvailableVariables(): string[] {
+    return ["title", "points", "comments", "author", "created_at", "story_url", "url"];
+  }
+
+  matches = (url: string) => {
+    return /^https:\/\/news\.ycombinator\.com\/item\?id=\d+/.test(url);
+  };
+
+  async fetchMetadata(
+    url: string,
+    signal?: AbortSignal
+  ): Promise<Record<string, string | undefined>> {
+    const id = url.match(/[?&]id=(\d+)/)?.[1];
+    if (!id) {
+      throw new Error("Could not extract item ID from URL");
+    }
+
+    const response = await request({
+      url: `https://hacker-news.firebaseio.com/v0/item/${id}.json`,
+      method: "GET"
+    }, signal);
+    const item = JSON.parse(response.text);
+
+    if (!item) {
+      throw new Error("Hacker News item not found");
+    }
+
+    // Comments have no title, so use the start of their text instead
+    let title: string | undefined = item.title;
+    if (!title && item.text) {
+      const text = new DOMParser().parseFromString(item.text, "text/html").body.textContent?.trim() ?? "";
+      title = text.length > 80 ? text.substring(0, 80).trimEnd() + "…" : text;
+    }
+
+    return {
+      title: title ? escapeMarkdownChars(title) : undefined,
+      points: item.score !== undefined ? item.score.toLocaleString() : undefined,
+      comments: item.descendants !== undefined ? item.descendants.toLocaleString() : undefined,
+      author: item.by ? escapeMarkdownChars(item.by) : undefined,
+      created_at: item.time ? new Date(item.time * 1000).toISOString() : undefined,
+      story_url: item.url || undefined,
+    };
+  }
+}
+
+// Sites on their own domain; every other site is a subdomain of stackexchange.com
+const STACKEXCHANGE_SITE_NAMES: Record<string, string> = {
+  "stackoverflow.com": "Stack Overflow",
+  "superuser.com": "Super User",
+  "serverfault.com": "Server Fault",
+  "askubuntu.com": "Ask Ubuntu",
+  "mathoverflow.net": "MathOverflow",
+  "stackapps.com": "Stack Apps",
+};
+
+const STACKEXCHANGE_LINK = /^https:\/\/((?:[\w-]+\.)?(?:stackoverflow\.com|stackexchange\.com|superuser\.com|serverfault\.com|askubuntu\.com|mathoverflow\.net|stackapps\.com))\/(questions|q|a)\/(\d+)/;
+
+class StackExchangeClient extends Client {
+  readonly name = "stackexchange" as const;
+  displayName = "Stack Overflow/StackExchange";
+  defaultFormat = "[{title}] - {site}";
+  defaultCacheTtlHours = 24;
+
+  getAvailableVariables(): string[] {
+    return ["title", "score", "answer_count", "is_answered", "tags", "site", "accepted_answer", "created_at", "url"];
+  }
+
+  matches = (url: string) => {
+    return STACKEXCHANGE_LINK.test(url) && !/^https:\/\/(api|www)\.stackexchange\.com\//.test(url);
+  };
+
+  async fetchMetadata(
+    url: string,
+    signal?: AbortSignal
+  ): Promise<Record<string, string | undefined>> {
+    const match = normalizeUrl(url).match(STACKEXCHANGE_LINK);
+    if (!match) {
+      throw new Error("Could not extract question ID from URL");
+    }
+    const [, site, kind, id] = match;
+
+    // Answer permalinks (/a/123) only carry the answer, so look up its question first
+    const questionId = kind === "a"
+      ? (await this.fetchApi(`/answers/${id}`, site, signal))?.question_id
+      : id;
+    if (!questionId) {
+      throw new Error("Answer not found");
+    }
+
+    const question = await this.fetchApi(`/questions/${questionId}`, site, signal);
+    if (!question) {
+      throw new Error("Question not found");
+    }
+
+    return {
+      title: question.title ? escapeMarkdownChars(question.title) : undefined,
+      score: question.score !== undefined ? question.score.toLocaleString() : undefined,
+      answer_count: question.answer_count !== undefined ? question.answer_count.toLocaleString() : undefined,
+      is_answered: question.is_answered ? "yes" : undefined,
+      tags: question.tags?.length ? escapeMarkdownChars(question.tags.join(", ")) : undefined,
+      site: STACKEXCHANGE_SITE_NAMES[site] ?? site,
+      accepted_answer: question.accepted_answer_id ? `https://${site}/a/${question.accepted_answer_id}` : undefined,
+      created_at: question.creation_date ? new Date(question.creation_date * 1000).toISOString() : undefined,
+    };
+  }
+
+  /**
+   * Fetches a single item from the StackExchange API.
+   * @param path - The API method, e.g. `/questions/123`.
+   * @param site - The site's domain, which the API accepts as the site parameter.
+   * @returns The first item, or undefined if there is none.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- StackExchange API items have no typed schema
+  async fetchApi(path: string, site: string, signal?: AbortSignal): Promise<any> {
+    const response = await request({
+      url: `https://api.stackexchange.com/2.3${path}?site=${encodeURIComponent(site)}`,
+      method: "GET",
+      throw: false,
+    }, signal);
+
+    const data = JSON.parse(response.text);
+    if (data.error_message) {
+      throw new Error(`StackExchange API: ${data.error_message}`);
+    }
+    return data.items?.[0];
   }
 }
 
-export const CLIENTS = [
-  new YouTubeClient(),
-  new YouTubeMusicClient(),
-  new ImageClient(),
-  new TwitterClient(),
-  new RedditClient(),
-  new GitHubClient(),
-  new DefaultClient(),
-] as const;
+const WIKIPEDIA_LINK = /^https:\/\/([\w-]+)(?:\.m)?\.wikipedia\.org\/wiki\/([^?#]+)(?:\?[^#]*)?(?:#(.+))?$/;
+
+class WikipediaClient extends Client {
+  readonly name = "wikipedia" as const;
+  displayName = "Wikipedia";
+  defaultFormat = "[{title}{section? § {section}:}]";
+  defaultCacheTtlHours = 24 * 30;
+
+  getAvailableVariables(): string[] {
+    return ["title", "description", "extract", "lang", "section", "url"];
+  }
+
+  matches = (url: string) => {
+    return WIKIPEDIA_LINK.test(url);
+  };
 
-export type ClientName = (typeof CLIENTS)[number]["name"];
+  async fetchMetadata(
+    url: string,
+    signal?: AbortSignal
+  ): Promise<Record<string, string | undefined>> {
+    const match = normalizeUrl(url).match(WIKIPEDIA_LINK);
+    if (!match) {
+      throw new Error("Could not extract article from URL");
+    }
+    const [, lang, page, fragment] = match;
+
+    const response = await request({
+      url: `https://${lang}.wikipedia.org/api/rest_v1/page/summary/${encodeURIComponent(this.decode(page))}`,
+      method: "GET"
+    }, signal);
+    const summary = JSON.parse(response.text);
+
+    const section = fragment ? this.decodeSection(fragment) : undefined;
+
+    return {
+      title: summary.title ? escapeMarkdownChars(summary.title) : undefined,
+      description: summary.description ? escapeMarkdownChars(summary.description) : undefined,
+      extract: summary.extract ? escapeMarkdownChars(summary.extract) : undefined,
+      lang: summary.lang ?? lang,
+      section: section ? escapeMarkdownChars(section) : undefined,
+    };
+  }
+
+  decode(value: string): string {
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return value;
+    }
+  }
+
+  /**
+   * Turns a URL fragment into the section heading it links to. Also reads the
+   * older anchor encoding, where `.C3.A9` stands for `é`.
+   */
+  decodeSection(fragment: string): string {
+    // Only multi-byte sequences are decoded, so ASCII text such as "1.0A" is left alone
+    const section = this.decode(fragment).replace(
+      /\.[C-F][0-9A-F](?:\.[89AB][0-9A-F])+/g,
+      sequence => this.decode(sequence.replace(/\./g, "%"))
+    );
+    return section.replace(/_/g, " ").trim();
+  }
+}
+
+// Mastodon's own status URLs, recognized on any host
+const MASTODON_STATUS = /^https:\/\/([\w.-]+)\/@[\w.]+(?:@[\w.-]+)?\/(\d{6,})\/?(?:[?#]|$)/;
+// Further shapes used by Mastodon-compatible servers, only recognized on configured instances
+const FEDIVERSE_STATUS = /^https:\/\/([\w.-]+)\/(?:@[\w.]+(?:@[\w.-]+)?(?:\/statuses)?|users\/[\w.]+\/statuses|notice|objects)\/([\w-]+)\/?(?:[?#]|$)/;
+
+class MastodonClient extends Client {
+  readonly name = "mastodon" as const;
+  displayName = "Mastodon";
+  defaultFormat = "[{text}] - @{author}";
+  defaultCacheTtlHours = 24;
+
+  constructor(private getSettings: () => ClientSettings) {
+    super();
+  }
+
+  getAvailableVariables(): string[] {
+    return ["text", "author", "display_name", "boosts", "favourites", "replies", "created_at", "url"];
+  }
+
+  matches = (url: string) => {
+    return MASTODON_STATUS.test(url) || this.isConfiguredInstance(url.match(FEDIVERSE_STATUS)?.[1]);
+  };
+
+  async fetchMetadata(
+    url: string,
+    signal?: AbortSignal
+  ): Promise<Record<string, string | undefined>> {
+    const normalized = normalizeUrl(url);
+    const match = normalized.match(MASTODON_STATUS) ?? normalized.match(FEDIVERSE_STATUS);
+    if (!match) {
+      throw new Error("Could not extract status ID from URL");
+    }
+    const [, host, id] = match;
+    const configured = this.isConfiguredInstance(host);
+
+    let status;
+    try {
+      const response = await request({ url: `https://${host}/api/v1/statuses/${id}`, method: "GET" }, signal);
+      status = JSON.parse(response.text);
+    } catch (error) {
+      // Links recognized by shape alone may not be from a Mastodon server at all
+      if (!configured && !(error instanceof CancelledError)) {
+        throw new UnsupportedLinkError(`${host} does not look like a Mastodon instance`);
+      }
+      throw error;
+    }
+    if (!status?.account) {
+      if (!configured) throw new UnsupportedLinkError(`${host} does not look like a Mastodon instance`);
+      throw new Error("Status not found");
+    }
+
+    const html = (status.content ?? "").replace(/<br\s*\/?>|<\/p>/gi, " ");
+    const text = new DOMParser().parseFromString(html, "text/html").body.textContent?.replace(/\s+/g, " ").trim();
+    const acct: string = status.account.acct ?? "";
+    const author = acct.includes("@") ? acct : `${acct}@${host}`;
+
+    return {
+      text: text ? escapeMarkdownChars(text) : undefined,
+      author: acct ? escapeMarkdownChars(author) : undefined,
+      display_name: status.account.display_name ? escapeMarkdownChars(status.account.display_name) : undefined,
+      boosts: status.reblogs_count?.toLocaleString(),
+      favourites: status.favourites_count?.toLocaleString(),
+      replies: status.replies_count?.toLocaleString(),
+      created_at: status.created_at,
+    };
+  }
+
+  private isConfiguredInstance(host: string | undefined): boolean {
+    if (!host) return false;
+    return this.getSettings().mastodonInstances
+      .split(",")
+      .map(instance => normalizeUrl(instance.trim()).replace(/^https:\/\//, "").replace(/\/.*$/, "").toLowerCase())
+      .includes(host.toLowerCase());
+  }
+}
+
+const BLUESKY_POST = /^https:\/\/bsky\.app\/profile\/([\w.:-]+)\/post\/([\w]+)/;
+const BLUESKY_APPVIEW = "https://public.api.bsky.app/xrpc";
+
+class BlueskyClient extends Client {
+  readonly name = "bluesky" as const;
+  displayName = "Bluesky";
+  defaultFormat = "[{text}] - @{author}";
+  defaultCacheTtlHours = 24;
+
+  getAvailableVariables(): string[] {
+    return ["text", "author", "name", "likes", "reposts", "replies", "quotes", "created_at", "url"];
+  }
+
+  matches = (url: string) => {
+    return BLUESKY_POST.test(url);
+  };
+
+  async fetchMetadata(
+    url: string,
+    signal?: AbortSignal
+  ): Promise<Record<string, string | undefined>> {
+    const match = normalizeUrl(url).match(BLUESKY_POST);
+    if (!match) {
+      throw new Error("Could not extract post from URL");
+    }
+    const [, actor, rkey] = match;
+    const did = actor.startsWith("did:") ? actor : await this.resolveHandle(actor, signal);
+
+    const uri = `at://${did}/app.bsky.feed.post/${rkey}`;
+    const response = await request({
+      url: `${BLUESKY_APPVIEW}/app.bsky.feed.getPosts?uris=${encodeURIComponent(uri)}`,
+      method: "GET"
+    }, signal);
+    const post = JSON.parse(response.text).posts?.[0];
+
+    if (!post) {
+      throw new Error("Post not found");
+    }
+
+    const text: string | undefined = post.record?.text?.replace(/\s+/g, " ").trim();
+
+    return {
+      text: text ? escapeMarkdownChars(text) : undefined,
+      author: post.author?.handle ? escapeMarkdownChars(post.author.handle) : undefined,
+      name: post.author?.displayName ? escapeMarkdownChars(post.author.displayName) : undefined,
+      likes: post.likeCount?.toLocaleString(),
+      reposts: post.repostCount?.toLocaleString(),
+      replies: post.replyCount?.toLocaleString(),
+      quotes: post.quoteCount?.toLocaleString(),
+      created_at: post.record?.createdAt ?? post.indexedAt,
+    };
+  }
+
+  /**
+   * Resolves a handle such as `alice.bsky.social` to its DID.
+   */
+  async resolveHandle(handle: string, signal?: AbortSignal): Promise<string> {
+    const response = await request({
+      url: `${BLUESKY_APPVIEW}/com.atproto.identity.resolveHandle?handle=${encodeURIComponent(handle)}`,
+      method: "GET"
+    }, signal);
+    const did = JSON.parse(response.text).did;
+    if (!did) {
+      throw new Error(`Could not resolve Bluesky handle ${handle}`);
+    }
+    return did;
+  }
+}
+
+/**
+ * Bibliographic details of a paper, as read from arXiv or a DOI registry.
+ */
+export interface PaperDetails {
+  type: "article" | "inproceedings" | "book" | "misc";
+  title: string;
+  authors: Array<{ given?: string; family: string }>;
+  year?: string;
+  venue?: string;
+  doi?: string;
+  arxivId?: string;
+  url: string;
+}
+
+/**
+ * Builds a BibTeX entry for a paper. The key is the first author's family name, the year and the first title word.
+ */
+export function buildBibtex(paper: PaperDetails): string {
+  const firstWord = paper.title.toLowerCase().match(/[a-z0-9]+/)?.[0] ?? "paper";
+  const family = (paper.authors[0]?.family ?? "anon").toLowerCase().normalize("NFD").replace(/[^a-z]/g, "");
+  const key = `${family}${paper.year ?? ""}${firstWord}`;
+
+  const fields: Array<[string, string | undefined]> = [
+    ["title", `{${paper.title}}`],
+    ["author", paper.authors.map(a => a.given ? `${a.family}, ${a.given}` : a.family).join(" and ")],
+    ["year", paper.year],
+    [paper.type === "inproceedings" ? "booktitle" : paper.type === "article" ? "journal" : "publisher", paper.venue],
+    ["doi", paper.doi],
+    ["eprint", paper.arxivId],
+    ["archivePrefix", paper.arxivId ? "arXiv" : undefined],
+    ["url", paper.url],
+  ];
+
+  const body = fields
+    .filter(([, value]) => value)
+    .map(([name, value]) => `  ${name} = {${value}}`)
+    .join(",\n");
+  return `@${paper.type}{${key},\n${body}\n}`;
+}
+
+const ARXIV_LINK = /^https:\/\/(?:export\.)?arxiv\.org\/(?:abs|pdf)\/((?:\d{4}\.\d{4,5}|[a-z-]+(?:\.[A-Z]{2})?\/\d{7})(?:v\d+)?)/i;
+const DOI_LINK = /^https:\/\/(?:dx\.)?doi\.org\/(10\.\d{4,9}\/[^?#\s]+)/;
+
+class AcademicClient extends Client {
+  readonly name = "academic" as const;
+  displayName = "arXiv/DOI paper";
+  defaultFormat = "[{title}] — {authors} ({year})";
+  defaultCacheTtlHours = 24 * 30;
+
+  getAvailableVariables(): string[] {
+    return ["title", "authors", "first_author", "year", "venue", "abstract", "doi", "arxiv_id", "bibtex", "url"];
+  }
+
+  matches = (url: string) => {
+    return ARXIV_LINK.test(url) || DOI_LINK.test(url);
+  };
+
+  async fetchMetadata(
+    url: string,
+    signal?: AbortSignal
+  ): Promise<Record<string, string | undefined>> {
+    const normalized = normalizeUrl(url);
+    const arxivId = normalized.match(ARXIV_LINK)?.[1];
+    const doi = normalized.match(DOI_LINK)?.[1];
+
+    let paper: PaperDetails;
+    let abstract: string | undefined;
+    if (arxivId) {
+      ({ paper, abstract } = await this.fetchArxiv(arxivId, signal));
+    } else if (doi) {
+      ({ paper, abstract } = await this.fetchDoi(decodeURIComponent(doi), signal));
+    } else {
+      throw new Error("Could not extract arXiv ID or DOI from URL");
+    }
+
+    const names = paper.authors.map(a => a.given ? `${a.given} ${a.family}` : a.family);
+    const authors = names.length > 3 ? `${paper.authors[0].family} et al.` : names.join(", ");
+
+    return {
+      title: escapeMarkdownChars(paper.title),
+      authors: authors ? escapeMarkdownChars(authors) : undefined,
+      first_author: names[0] ? escapeMarkdownChars(names[0]) : undefined,
+      year: paper.year,
+      venue: paper.venue ? escapeMarkdownChars(paper.venue) : undefined,
+      abstract: abstract ? escapeMarkdownChars(abstract) : undefined,
+      doi: paper.doi,
+      arxiv_id: paper.arxivId,
+      bibtex: buildBibtex(paper),
+    };
+  }
+
+  async fetchArxiv(id: string, signal?: AbortSignal): Promise<{ paper: PaperDetails; abstract?: string }> {
+    const response = await request({
+      url: `https://export.arxiv.org/api/query?id_list=${encodeURIComponent(id)}`,
+      method: "GET"
+    }, signal);
+
+    const doc = new DOMParser().parseFromString(response.text, "application/xml");
+    const entry = doc.getElementsByTagName("entry")[0];
+    const text = (parent: Element, tag: string) =>
+      parent.getElementsByTagName(tag)[0]?.textContent?.replace(/\s+/g, " ").trim() || undefined;
+
+    const title = entry && text(entry, "title");
+    if (!entry || !title || title === "Error") {
+      throw new Error("arXiv entry not found");
+    }
+
+    const authors = Array.from(entry.getElementsByTagName("author"))
+      .map(author => text(author, "name"))
+      .filter((name): name is string => !!name)
+      .map(name => {
+        const index = name.lastIndexOf(" ");
+        return index === -1 ? { family: name } : { given: name.substring(0, index), family: name.substring(index + 1) };
+      });
+    const journal = text(entry, "arxiv:journal_ref");
+
+    return {
+      paper: {
+        type: journal ? "article" : "misc",
+        title,
+        authors,
+        year: text(entry, "published")?.substring(0, 4),
+        venue: journal ?? "arXiv",
+        doi: text(entry, "arxiv:doi"),
+        arxivId: id.replace(/v\d+$/, ""),
+        url: `https://arxiv.org/abs/${id.replace(/v\d+$/, "")}`,
+      },
+      abstract: text(entry, "summary"),
+    };
+  }
+
+  /**
+   * Reads a DOI's metadata as CSL JSON, which doi.org serves for Crossref, DataCite and mEDRA DOIs.
+   */
+  async fetchDoi(doi: string, signal?: AbortSignal): Promise<{ paper: PaperDetails; abstract?: string }> {
+    const response = await request({
+      url: `https://doi.org/${encodeURIComponent(doi).replace(/%2F/g, "/")}`,
+      method: "GET",
+      headers: { "Accept": "application/vnd.citationstyles.csl+json" }
+    }, signal);
+    const csl = JSON.parse(response.text);
+
+    const title = Array.isArray(csl.title) ? csl.title[0] : csl.title;
+    if (!title) {
+      throw new Error("DOI metadata has no title");
+    }
+
+    const venue = Array.isArray(csl["container-title"]) ? csl["container-title"][0] : csl["container-title"];
+    const year = (csl.issued ?? csl.published ?? csl.created)?.["date-parts"]?.[0]?.[0];
+    // Crossref abstracts are JATS XML
+    const abstract = csl.abstract
+      ? new DOMParser().parseFromString(csl.abstract, "text/html").body.textContent?.replace(/\s+/g, " ").trim()
+      : undefined;
+
+    return {
+      paper: {
+        type: csl.type === "article-journal" ? "article"
+          : csl.type === "paper-conference" ? "inproceedings"
+          : csl.type === "book" ? "book"
+          : "misc",
+        title: String(title).replace(/\s+/g, " ").trim(),
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any -- CSL name objects
+        authors: (csl.author ?? []).map((a: any) => a.family ? { given: a.given, family: a.family } : { family: a.literal ?? a.name })
+          .filter((a: { family?: string }) => a.family),
+        year: year ? String(year) : undefined,
+        venue: venue || csl.publisher || undefined,
+        doi: csl.DOI ?? doi,
+        url: `https://doi.org/${csl.DOI ?? doi}`,
+      },
+      abstract: abstract || undefined,
+    };
+  }
+}
+
+/**
+ * Turns a package's repository reference, e.g. `git+https://github.com/a/b.git`, into a web URL.
+ */
+export function cleanRepositoryUrl(repository: string | undefined): string | undefined {
+  if (!repository) return undefined;
+  const url = repository.trim()
+    .replace(/^git\+/, "")
+    .replace(/^git:\/\//, "https://")
+    .replace(/^ssh:\/\/git@/, "https://")
+    .replace(/^git@([^:]+):/, "https://$1/")
+    .replace(/^github:/, "https://github.com/")
+    .replace(/\.git$/, "");
+  return /^https?:\/\//.test(url) ? url : /^[\w.-]+\/[\w.-]+$/.test(url) ? `https://github.com/${url}` : undefined;
+}
+
+/**
+ * Shared variables for package registry clients.
+ */
+abstract class PackageClient extends Client {
+  defaultFormat = "[{name} {version}]: {description}";
+  defaultCacheTtlHours = 24;
+
+  getAvailableVariables(): string[] {
+    return ["name", "version", "description", "license", "homepage", "repository", "url"];
+  }
+
+  result(values: { name?: string; version?: string; description?: string; license?: string; homepage?: string; repository?: string }): Record<string, string | undefined> {
+    return {
+      name: values.name ? escapeMarkdownChars(values.name) : undefined,
+      version: values.version ? escapeMarkdownChars(values.version) : undefined,
+      description: values.description?.trim() ? escapeMarkdownChars(values.description.trim()) : undefined,
+      license: values.license ? escapeMarkdownChars(values.license) : undefined,
+      homepage: values.homepage || undefined,
+      repository: cleanRepositoryUrl(values.repository),
+    };
+  }
+}
+
+const NPM_LINK = /^https:\/\/npmjs\.com\/package\/((?:@[\w.-]+\/)?[\w.-]+)(?:\/v\/([^/?#]+))?/;
+
+class NpmClient extends PackageClient {
+  readonly name = "npm" as const;
+  displayName = "npm";
+  defaultFormat = "[{name}@{version}]: {description}";
+
+  matches = (url: string) => {
+    return NPM_LINK.test(url);
+  };
+
+  async fetchMetadata(
+    url: string,
+    signal?: AbortSignal
+  ): Promise<Record<string, string | undefined>> {
+    const [, name, version] = normalizeUrl(url).match(NPM_LINK)!;
+    const response = await request({
+      url: `https://registry.npmjs.org/${name.replace("/", "%2F")}/${version ? encodeURIComponent(decodeURIComponent(version)) : "latest"}`,
+      method: "GET"
+    }, signal);
+    const pkg = JSON.parse(response.text);
+
+    if (!pkg.name) {
+      throw new Error("Package not found");
+    }
+
+    return this.result({
+      name: pkg.name,
+      version: pkg.version,
+      description: pkg.description,
+      license: typeof pkg.license === "string" ? pkg.license : pkg.license?.type,
+      homepage: pkg.homepage,
+      repository: typeof pkg.repository === "string" ? pkg.repository : pkg.repository?.url,
+    });
+  }
+}
+
+const PYPI_LINK = /^https:\/\/pypi\.org\/project\/([\w.-]+)(?:\/(\d[^/?#]*))?/;
+
+class PyPIClient extends PackageClient {
+  readonly name = "pypi" as const;
+  displayName = "PyPI";
+
+  matches = (url: string) => {
+    return PYPI_LINK.test(url);
+  };
+
+  async fetchMetadata(
+    url: string,
+    signal?: AbortSignal
+  ): Promise<Record<string, string | undefined>> {
+    const [, name, version] = normalizeUrl(url).match(PYPI_LINK)!;
+    const response = await request({
+      url: `https://pypi.org/pypi/${name}${version ? `/${version}` : ""}/json`,
+      method: "GET"
+    }, signal);
+    const info = JSON.parse(response.text).info;
+
+    if (!info) {
+      throw new Error("Package not found");
+    }
+
+    // Project URL labels are free-form, so look for the usual ones
+    const projectUrls: Record<string, string> = info.project_urls ?? {};
+    const findUrl = (...labels: string[]) => Object.entries(projectUrls)
+      .find(([label]) => labels.includes(label.toLowerCase().replace(/[\s_-]/g, "")))?.[1];
+
+    // The license field sometimes holds the full license text, so prefer the expression or classifier
+    const classifiers: string[] = info.classifiers ?? [];
+    const classifier = classifiers.find(c => c.startsWith("License :: "))?.split(" :: ").pop();
+    const license = info.license_expression || (info.license && info.license.length <= 40 ? info.license : classifier);
+
+    return this.result({
+      name: info.name,
+      version: info.version,
+      description: info.summary,
+      license: license,
+      homepage: info.home_page || findUrl("homepage", "home", "documentation"),
+      repository: findUrl("source", "sourcecode", "repository", "code", "github"),
+    });
+  }
+}
+
+const CRATES_LINK = /^https:\/\/crates\.io\/crates\/([\w-]+)(?:\/(\d[^/?#]*))?/;
+
+class CratesClient extends PackageClient {
+  readonly name = "crates" as const;
+  displayName = "crates.io";
+
+  matches = (url: string) => {
+    return CRATES_LINK.test(url);
+  };
+
+  async fetchMetadata(
+    url: string,
+    signal?: AbortSignal
+  ): Promise<Record<string, string | undefined>> {
+    const [, name, requestedVersion] = normalizeUrl(url).match(CRATES_LINK)!;
+    const response = await request({
+      url: `https://crates.io/api/v1/crates/${name}`,
+      method: "GET",
+      // crates.io rejects requests without a User-Agent
+      headers: { "User-Agent": "Obsidian Smart Link Formatter" }
+    }, signal);
+    const data = JSON.parse(response.text);
+
+    if (!data.crate) {
+      throw new Error("Crate not found");
+    }
+
+    const version = requestedVersion ?? data.crate.max_stable_version ?? data.crate.newest_version;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any -- crates.io version objects
+    const release = data.versions?.find((v: any) => v.num === version);
+
+    return this.result({
+      name: data.crate.name,
+      version: version,
+      description: data.crate.description,
+      license: release?.license,
+      homepage: data.crate.homepage,
+      repository: data.crate.repository,
+    });
+  }
+}
+
+export type ForgeType = "gitlab" | "gitea";
+
+/**
+ * A self-hosted GitLab or Gitea/Forgejo instance, configured in the settings.
+ */
+export interface ForgeInstance {
+  type: ForgeType;
+  baseUrl: string;   // e.g. https://git.example.com, or https://example.com/gitlab
+  token?: string;    // Optional access token for private projects
+}
+
+interface ForgeLink {
+  instance: ForgeInstance;
+  path: string;      // The part of the URL below the instance, without leading or trailing slashes
+}
+
+/**
+ * Shared instance matching and API access for the GitLab and Gitea clients.
+ * Each client matches its public host as well as the self-hosted instances of its type.
+ */
+abstract class ForgeClient extends Client {
+  abstract readonly forge: ForgeType;
+  abstract readonly publicHosts: string[];
+
+  constructor(private getSettings: () => ClientSettings) {
+    super();
+  }
+
+  /**
+   * Finds the instance a link belongs to.
+   * @param url - The link, normalized or not.
+   * @returns The instance and the path below it, or null for other sites.
+   */
+  parseLink(url: string): ForgeLink | null {
+    const normalized = normalizeUrl(url).split(/[?#]/)[0];
+    const instances = this.getSettings().forgeInstances
+      .filter(instance => instance.type === this.forge && instance.baseUrl.trim());
+    const candidates: ForgeInstance[] = [
+      ...instances,
+      ...this.publicHosts.map(host => ({ type: this.forge, baseUrl: `https://${host}` })),
+    ];
+
+    for (const instance of candidates) {
+      const base = normalizeUrl(instance.baseUrl.trim()).replace(/\/+$/, "");
+      if (normalized.startsWith(base + "/")) {
+        return { instance, path: normalized.substring(base.length + 1).replace(/\/+$/, "") };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Fetches a path of the instance's REST API.
+   * @throws UnsupportedLinkError if the API does not know the path.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- forge API responses have no typed schema
+  async fetchApi(instance: ForgeInstance, apiPath: string, signal?: AbortSignal): Promise<any> {
+    const headers: Record<string, string> = { "Accept": "application/json" };
+    if (instance.token) {
+      if (this.forge === "gitlab") {
+        headers["PRIVATE-TOKEN"] = instance.token;
+      } else {
+        headers["Authorization"] = `token ${instance.token}`;
+      }
+    }
+
+    const response = await request({
+      url: instance.baseUrl.trim().replace(/\/+$/, "") + apiPath,
+      method: "GET",
+      headers,
+      throw: false,
+    }, signal);
+
+    // Paths that look like projects can be groups or user profiles, which the default client handles
+    if (response.status === 404) {
+      throw new UnsupportedLinkError(`${this.displayName} API has no such project`);
+    }
+    if (response.status >= 400) {
+      throw new Error(`${this.displayName} API returned ${response.status}`);
+    }
+    return JSON.parse(response.text);
+  }
+
+  /**
+   * Escapes an optional string value from an API response.
+   */
+  escape(value: unknown): string | undefined {
+    return typeof value === "string" && value ? escapeMarkdownChars(value) : undefined;
+  }
+}
+
+// GitLab project paths can be nested in subgroups; everything below a project starts with "/-/"
+const GITLAB_PROJECT = /^((?:[\w.-]+\/)+[\w.-]+)$/;
+const GITLAB_MERGE_REQUEST = /^((?:[\w.-]+\/)+[\w.-]+)\/-\/merge_requests\/(\d+)/;
+const GITLAB_ISSUE = /^((?:[\w.-]+\/)+[\w.-]+)\/-\/(?:issues|work_items)\/(\d+)/;
+
+/**
+ * Splits a GitLab project path into its namespace (`owner`) and project name (`repo`).
+ */
+function splitGitLabPath(path: string): { owner: string; repo: string } {
+  const index = path.lastIndexOf("/");
+  return { owner: escapeMarkdownChars(path.substring(0, index)), repo: escapeMarkdownChars(path.substring(index + 1)) };
+}
+
+class GitLabClient extends ForgeClient {
+  readonly name = "gitlab" as const;
+  readonly forge = "gitlab" as const;
+  readonly publicHosts = ["gitlab.com"];
+  displayName = "GitLab";
+  defaultFormat = "[{owner}/{repo}]{description? - {description}:}";
+
+  getAvailableVariables(): string[] {
+    return ["owner", "repo", "title", "description", "stars", "forks", "url"];
+  }
+
+  matches = (url: string) => {
+    const link = this.parseLink(url);
+    return !!link && GITLAB_PROJECT.test(link.path) && !link.path.split("/").includes("-")
+      && !/^(explore|dashboard|users|groups|admin|help)\//.test(link.path);
+  };
+
+  async fetchMetadata(
+    url: string,
+    signal?: AbortSignal
+  ): Promise<Record<string, string | undefined>> {
+    const { instance, path } = this.parseLink(url)!;
+    const project = await this.fetchApi(instance, `/api/v4/projects/${encodeURIComponent(path)}`, signal);
+
+    return {
+      ...splitGitLabPath(project.path_with_namespace ?? path),
+      title: this.escape(project.name),
+      description: this.escape(project.description?.trim()),
+      stars: project.star_count !== undefined ? String(project.star_count) : undefined,
+      forks: project.forks_count !== undefined ? String(project.forks_count) : undefined,
+    };
+  }
+}
+
+class GitLabMergeRequestClient extends ForgeClient {
+  readonly name = "gitlab-merge-request" as const;
+  readonly forge = "gitlab" as const;
+  readonly publicHosts = ["gitlab.com"];
+  displayName = "GitLab merge request";
+  defaultFormat = "[{title}] ({owner}/{repo}!{number})";
+  defaultCacheTtlHours = 24;
+
+  getAvailableVariables(): string[] {
+    return ["owner", "repo", "number", "title", "state", "author", "labels", "comments", "branch", "created_at", "url"];
+  }
+
+  matches = (url: string) => {
+    const link = this.parseLink(url);
+    return !!link && GITLAB_MERGE_REQUEST.test(link.path);
+  };
+
+  async fetchMetadata(
+    url: string,
+    signal?: AbortSignal
+  ): Promise<Record<string, string | undefined>> {
+    const { instance, path } = this.parseLink(url)!;
+    const [, projectPath, number] = path.match(GITLAB_MERGE_REQUEST)!;
+    const mr = await this.fetchApi(instance, `/api/v4/projects/${encodeURIComponent(projectPath)}/merge_requests/${number}`, signal);
+
+    return {
+      ...splitGitLabPath(projectPath),
+      number: number,
+      title: this.escape(mr.title),
+      state: mr.draft && mr.state === "opened" ? "draft" : mr.state,
+      author: this.escape(mr.author?.username),
+      labels: this.escape(mr.labels?.join(", ")),
+      comments: mr.user_notes_count !== undefined ? String(mr.user_notes_count) : undefined,
+      branch: this.escape(mr.source_branch),
+      created_at: mr.created_at,
+    };
+  }
+}
+
+class GitLabIssueClient extends ForgeClient {
+  readonly name = "gitlab-issue" as const;
+  readonly forge = "gitlab" as const;
+  readonly publicHosts = ["gitlab.com"];
+  displayName = "GitLab issue";
+  defaultFormat = "[{title}] ({owner}/{repo}#{number})";
+  defaultCacheTtlHours = 24;
+
+  getAvailableVariables(): string[] {
+    return ["owner", "repo", "number", "title", "state", "author", "labels", "comments", "created_at", "url"];
+  }
+
+  matches = (url: string) => {
+    const link = this.parseLink(url);
+    return !!link && GITLAB_ISSUE.test(link.path);
+  };
+
+  async fetchMetadata(
+    url: string,
+    signal?: AbortSignal
+  ): Promise<Record<string, string | undefined>> {
+    const { instance, path } = this.parseLink(url)!;
+    const [, projectPath, number] = path.match(GITLAB_ISSUE)!;
+    const issue = await this.fetchApi(instance, `/api/v4/projects/${encodeURIComponent(projectPath)}/issues/${number}`, signal);
+
+    return {
+      ...splitGitLabPath(projectPath),
+      number: number,
+      title: this.escape(issue.title),
+      state: issue.state,
+      author: this.escape(issue.author?.username),
+      labels: this.escape(issue.labels?.join(", ")),
+      comments: issue.user_notes_count !== undefined ? String(issue.user_notes_count) : undefined,
+      created_at: issue.created_at,
+    };
+  }
+}
+
+const GITEA_REPO = /^([\w.-]+)\/([\w.-]+)$/;
+const GITEA_PULL = /^([\w.-]+)\/([\w.-]+)\/pulls\/(\d+)/;
+const GITEA_ISSUE = /^([\w.-]+)\/([\w.-]+)\/issues\/(\d+)/;
+
+class GiteaClient extends ForgeClient {
+  readonly name = "gitea" as const;
+  readonly forge = "gitea" as const;
+  readonly publicHosts = ["codeberg.org"];
+  displayName = "Gitea/Codeberg";
+  defaultFormat = "[{owner}/{repo}]{description? - {description}:}";
+
+  getAvailableVariables(): string[] {
+    return ["owner", "repo", "description", "stars", "forks", "url"];
+  }
+
+  matches = (url: string) => {
+    const link = this.parseLink(url);
+    return !!link && GITEA_REPO.test(link.path) && !/^(explore|user|org|admin)\//.test(link.path);
+  };
+
+  async fetchMetadata(
+    url: string,
+    signal?: AbortSignal
+  ): Promise<Record<string, string | undefined>> {
+    const { instance, path } = this.parseLink(url)!;
+    const [, owner, repo] = path.match(GITEA_REPO)!;
+    const data = await this.fetchApi(instance, `/api/v1/repos/${owner}/${repo}`, signal);
+
+    return {
+      owner: escapeMarkdownChars(owner),
+      repo: escapeMarkdownChars(repo),
+      description: this.escape(data.description?.trim()),
+      stars: data.stars_count !== undefined ? String(data.stars_count) : undefined,
+      forks: data.forks_count !== undefined ? String(data.forks_count) : undefined,
+    };
+  }
+}
+
+class GiteaPullRequestClient extends ForgeClient {
+  readonly name = "gitea-pull" as const;
+  readonly forge = "gitea" as const;
+  readonly publicHosts = ["codeberg.org"];
+  displayName = "Gitea/Codeberg pull request";
+  defaultFormat = "[{title}] ({owner}/{repo}#{number})";
+  defaultCacheTtlHours = 24;
+
+  getAvailableVariables(): string[] {
+    return ["owner", "repo", "number", "title", "state", "author", "labels", "comments", "branch", "created_at", "url"];
+  }
+
+  matches = (url: string) => {
+    const link = this.parseLink(url);
+    return !!link && GITEA_PULL.test(link.path);
+  };
+
+  async fetchMetadata(
+    url: string,
+    signal?: AbortSignal
+  ): Promise<Record<string, string | undefined>> {
+    const { instance, path } = this.parseLink(url)!;
+    const [, owner, repo, number] = path.match(GITEA_PULL)!;
+    const pull = await this.fetchApi(instance, `/api/v1/repos/${owner}/${repo}/pulls/${number}`, signal);
+
+    let state = pull.state;
+    if (pull.merged) {
+      state = "merged";
+    } else if (pull.draft && pull.state === "open") {
+      state = "draft";
+    }
+
+    return {
+      owner: escapeMarkdownChars(owner),
+      repo: escapeMarkdownChars(repo),
+      number: number,
+      title: this.escape(pull.title),
+      state: state,
+      author: this.escape(pull.user?.login),
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any -- Gitea label objects
+      labels: this.escape(pull.labels?.map((label: any) => label.name).join(", ")),
+      comments: pull.comments !== undefined ? String(pull.comments) : undefined,
+      branch: this.escape(pull.head?.ref),
+      created_at: pull.created_at,
+    };
+  }
+}
+
+class GiteaIssueClient extends ForgeClient {
+  readonly name = "gitea-issue" as const;
+  readonly forge = "gitea" as const;
+  readonly publicHosts = ["codeberg.org"];
+  displayName = "Gitea/Codeberg issue";
+  defaultFormat = "[{title}] ({owner}/{repo}#{number})";
+  defaultCacheTtlHours = 24;
+
+  getAvailableVariables(): string[] {
+    return ["owner", "repo", "number", "title", "state", "author", "labels", "comments", "created_at", "url"];
+  }
+
+  matches = (url: string) => {
+    const link = this.parseLink(url);
+    return !!link && GITEA_ISSUE.test(link.path);
+  };
+
+  async fetchMetadata(
+    url: string,
+    signal?: AbortSignal
+  ): Promise<Record<string, string | undefined>> {
+    const { instance, path } = this.parseLink(url)!;
+    const [, owner, repo, number] = path.match(GITEA_ISSUE)!;
+    const issue = await this.fetchApi(instance, `/api/v1/repos/${owner}/${repo}/issues/${number}`, signal);
+
+    return {
+      owner: escapeMarkdownChars(owner),
+      repo: escapeMarkdownChars(repo),
+      number: number,
+      title: this.escape(issue.title),
+      state: issue.state,
+      author: this.escape(issue.user?.login),
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any -- Gitea label objects
+      labels: this.escape(issue.labels?.map((label: any) => label.name).join(", ")),
+      comments: issue.comments !== undefined ? String(issue.comments) : undefined,
+      created_at: issue.created_at,
+    };
+  }
+}
+
+interface OEmbedProvider {
+  pattern: RegExp;
+  endpoint: string;
+}
+
+// Providers with a known endpoint, which skip discovery. Patterns match normalized URLs.
+const OEMBED_PROVIDERS: OEmbedProvider[] = [
+  { pattern: /^https:\/\/(player\.)?vimeo\.com\//, endpoint: "https://vimeo.com/api/oembed.json" },
+  { pattern: /^https:\/\/(m\.)?soundcloud\.com\//, endpoint: "https://soundcloud.com/oembed?format=json" },
+  { pattern: /^https:\/\/(flickr\.com|flic\.kr)\//, endpoint: "https://www.flickr.com/services/oembed/?format=json" },
+  { pattern: /^https:\/\/(dailymotion\.com|dai\.ly)\//, endpoint: "https://www.dailymotion.com/services/oembed?format=json" },
+  { pattern: /^https:\/\/tiktok\.com\/@[\w.-]+\/video\//, endpoint: "https://www.tiktok.com/oembed" },
+  { pattern: /^https:\/\/speakerdeck\.com\//, endpoint: "https://speakerdeck.com/oembed.json" },
+  { pattern: /^https:\/\/codepen\.io\/[\w-]+\/pen\//, endpoint: "https://codepen.io/api/oembed?format=json" },
+];
+
+/**
+ * Describes links to known oEmbed providers without loading the page. Endpoints other
+ * sites advertise with `<link rel="alternate" type="application/json+oembed">` are
+ * discovered by the default client, which loads the page anyway.
+ */
+class OEmbedClient extends Client {
+  readonly name = "oembed" as const;
+  displayName = "oEmbed";
+  defaultFormat = "[{title}]{author_name? by {author_name}:}";
+
+  getAvailableVariables(): string[] {
+    return ["title", "author_name", "provider_name", "thumbnail_url", "duration", "url"];
+  }
+
+  matches = (url: string) => {
+    return this.getKnownEndpoint(url) !== null;
+  };
+
+  async fetchMetadata(
+    url: string,
+    signal?: AbortSignal
+  ): Promise<Record<string, string | undefined>> {
+    const endpoint = this.getKnownEndpoint(url);
+    if (!endpoint) {
+      throw new UnsupportedLinkError("No oEmbed endpoint found");
+    }
+    return this.fetchEndpoint(endpoint, signal);
+  }
+
+  /**
+   * Reads the oEmbed variables from an endpoint.
+   * @param endpoint - The endpoint URL, including the link as its `url` parameter.
+   * @param signal - Cancels the request.
+   * @returns The oEmbed variables.
+   * @throws UnsupportedLinkError if the response has no title.
+   */
+  async fetchEndpoint(endpoint: string, signal?: AbortSignal): Promise<Record<string, string | undefined>> {
+    const response = await request({ url: endpoint, method: "GET" }, signal);
+    const data = JSON.parse(response.text);
+
+    if (!data?.title) {
+      throw new UnsupportedLinkError("oEmbed response has no title");
+    }
+
+    return {
+      title: escapeMarkdownChars(String(data.title)),
+      author_name: data.author_name ? escapeMarkdownChars(String(data.author_name)) : undefined,
+      provider_name: data.provider_name ? escapeMarkdownChars(String(data.provider_name)) : undefined,
+      thumbnail_url: data.thumbnail_url || undefined,
+      duration: typeof data.duration === "number" ? formatDuration(Math.round(data.duration)) : undefined,
+    };
+  }
+
+  /**
+   * Builds the endpoint URL for a known provider.
+   * @param url - The link being formatted.
+   * @returns The endpoint URL, or null if no known provider matches.
+   */
+  getKnownEndpoint(url: string): string | null {
+    const provider = OEMBED_PROVIDERS.find(({ pattern }) => pattern.test(normalizeUrl(url)));
+    if (!provider) return null;
+    return this.withUrl(provider.endpoint, url);
+  }
+
+  private withUrl(endpoint: string, url: string): string {
+    const separator = !endpoint.includes("?") ? "?" : endpoint.endsWith("?") || endpoint.endsWith("&") ? "" : "&";
+    return `${endpoint}${separator}url=${encodeURIComponent(url)}`;
+  }
+}
+
+/**
+ * Fallback client that matches every link and formats the title, with the page's
+ * OpenGraph, article and Twitter meta tags available as variables. When the page
+ * advertises an oEmbed endpoint, its title and variables are used as well.
+ */
+class DefaultClient extends Client {
+  readonly name = "default" as const;
+  displayName = "Default";
+  defaultFormat = "[{title}]";
+
+  /**
+   * @param oembed - Reads the oEmbed endpoints advertised by the pages this client loads.
+   */
+  constructor(private oembed: OEmbedClient) {
+    super();
+  }
+
+  getAvailableVariables(): string[] {
+      return ["title", "url", ...PAGE_META_TAGS, "author_name", "provider_name", "thumbnail_url", "duration"];
+  }
+
+  async fetchMetadata(url: string, signal?: AbortSignal): Promise<Record<string, string | undefined>> {
+      const page = await getPageMetadata(url, signal);
+      if (!page.oembedEndpoint) {
+          return page.metadata;
+      }
+
+      try {
+          return { ...page.metadata, ...await this.oembed.fetchEndpoint(page.oembedEndpoint, signal) };
+      } catch (error) {
+          if (error instanceof CancelledError) throw error;
+          // The page itself still has a title
+          return page.metadata;
+      }
+  }
+
+  matches(): boolean {
+      return true;
+  }
+}
+
+/**
+ * The settings read by clients that recognize configured instances.
+ */
+export interface ClientSettings {
+  forgeInstances: ForgeInstance[];
+  mastodonInstances: string;   // Comma-separated host names
+}
+
+const NO_INSTANCES: ClientSettings = { forgeInstances: [], mastodonInstances: "" };
+
+/**
+ * Creates the built-in clients, in matching order.
+ * @param getSettings - Looked up on every match, so settings changes apply without recreating the clients.
+ */
+export function createClients(getSettings: () => ClientSettings = () => NO_INSTANCES): Client[] {
+  const oembed = new OEmbedClient();
+  return [
+    new YouTubeClient(),
+    new YouTubeShortClient(),
+    new YouTubeLiveClient(),
+    new YouTubePlaylistClient(),
+    new YouTubeChannelClient(),
+    new YouTubeMusicClient(),
+    new SpotifyClient(),
+    new SoundCloudClient(),
+    new BandcampClient(),
+    new AppleMusicClient(),
+    new ImageClient(),
+    new TwitterClient(),
+    new RedditClient(),
+    new RedditSubredditClient(),
+    new RedditUserClient(),
+    new GitHubClient(),
+    new GitHubIssueClient(),
+    new GitHubCommitClient(),
+    new GitHubPullRequestClient(),
+    new GitHubReleaseClient(),
+    new GitHubFileClient(),
+    new HackerNewsClient(),
+    new StackExchangeClient(),
+    new WikipediaClient(),
+    new AcademicClient(),
+    new NpmClient(),
+    new PyPIClient(),
+    new CratesClient(),
+    new MastodonClient(getSettings),
+    new BlueskyClient(),
+    new GitLabMergeRequestClient(getSettings),
+    new GitLabIssueClient(getSettings),
+    new GitLabClient(getSettings),
+    new GiteaPullRequestClient(getSettings),
+    new GiteaIssueClient(getSettings),
+    new GiteaClient(getSettings),
+    oembed,
+    new DefaultClient(oembed),
+  ];
+}
+
+/**
+ * The built-in clients without any configured instances.
+ */
+export const CLIENTS = createClients();
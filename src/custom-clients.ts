@@ -0,0 +1,191 @@
+import { Client } from "clients";
+import { request } from "request";
+import { escapeMarkdownChars, normalizeUrl } from "utils";
+
+export type CustomFetchStrategy = 'html' | 'json';
+
+/**
+ * A variable captured by a custom client.
+ */
+export interface CustomVariable {
+  name: string;
+  source: string;      // CSS selector (HTML) or dot-separated field path (JSON)
+  attribute?: string;  // HTML only: attribute to read instead of the element's text
+}
+
+/**
+ * A client defined in the settings rather than in code.
+ */
+export interface CustomClientConfig {
+  id: string;
+  displayName: string;
+  enabled: boolean;
+  pattern: string;              // Regex matched against the normalized URL
+  strategy: CustomFetchStrategy;
+  endpoint: string;             // JSON only: endpoint template, filled from the URL and the pattern's groups
+  variables: CustomVariable[];
+  format: string;
+}
+
+/**
+ * Creates an empty custom client with a unique id.
+ */
+export function createCustomClientConfig(): CustomClientConfig {
+  return {
+    id: Date.now().toString(36) + Math.random().toString(36).substring(2, 6),
+    displayName: 'Custom client',
+    enabled: true,
+    pattern: '',
+    strategy: 'html',
+    endpoint: '',
+    variables: [{ name: 'title', source: 'title' }],
+    format: '[{title}]',
+  };
+}
+
+/**
+ * Parses variables written one per line as `name = source`, with an optional
+ * trailing `@attribute` for HTML clients, e.g. `image = meta[property="og:image"] @content`.
+ * Lines that do not follow this form are ignored.
+ * @param text - The variable lines.
+ */
+export function parseVariableLines(text: string): CustomVariable[] {
+  const variables: CustomVariable[] = [];
+  for (const line of text.split('\n')) {
+    const match = line.match(/^\s*([\w-]+)\s*=\s*(.+?)(?:\s+@([\w:-]+))?\s*$/);
+    if (!match) continue;
+    variables.push(match[3]
+      ? { name: match[1], source: match[2], attribute: match[3] }
+      : { name: match[1], source: match[2] });
+  }
+  return variables;
+}
+
+/**
+ * Writes variables back in the form read by `parseVariableLines`.
+ */
+export function formatVariableLines(variables: CustomVariable[]): string {
+  return variables
+    .map(({ name, source, attribute }) => `${name} = ${source}${attribute ? ` @${attribute}` : ''}`)
+    .join('\n');
+}
+
+/**
+ * Compiles a custom client's pattern.
+ * @returns The regex, or null if the pattern is empty or invalid.
+ */
+export function compilePattern(pattern: string): RegExp | null {
+  if (!pattern.trim()) return null;
+  try {
+    return new RegExp(pattern);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fills an endpoint template. `{url}` is the encoded link, `{0}`..`{n}` are the
+ * pattern's numbered groups, and `{name}` its named groups.
+ * @param template - The endpoint template.
+ * @param url - The link being formatted.
+ * @param match - The pattern's match against the link.
+ */
+export function fillEndpoint(template: string, url: string, match: RegExpMatchArray | null): string {
+  return template.replace(/{([\w-]+)}/g, (placeholder, key: string) => {
+    if (key === 'url') return encodeURIComponent(url);
+    const value = /^\d+$/.test(key) ? match?.[Number(key)] : match?.groups?.[key];
+    return value !== undefined ? encodeURIComponent(value) : placeholder;
+  });
+}
+
+/**
+ * Reads a value from parsed JSON by a dot-separated path such as `data.items.0.title`.
+ * Bracketed indexes (`items[0]`) are accepted as well.
+ * @returns The value as a string, or undefined if the path does not lead to a scalar.
+ */
+export function getValueAtPath(data: unknown, path: string): string | undefined {
+  let value = data;
+  for (const key of path.replace(/\[(\d+)\]/g, '.$1').split('.').filter(Boolean)) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return undefined;
+}
+
+/**
+ * Captures variables from a parsed HTML document.
+ */
+export function extractHtmlVariables(doc: Document, variables: CustomVariable[]): Record<string, string | undefined> {
+  const metadata: Record<string, string | undefined> = {};
+  for (const { name, source, attribute } of variables) {
+    let element: Element | null = null;
+    try {
+      element = doc.querySelector(source);
+    } catch {
+      // Invalid selectors leave the variable empty
+    }
+    const value = (attribute ? element?.getAttribute(attribute) : element?.textContent)?.trim();
+    metadata[name] = value ? escapeMarkdownChars(value) : undefined;
+  }
+  return metadata;
+}
+
+/**
+ * Captures variables from a parsed JSON response.
+ */
+export function extractJsonVariables(data: unknown, variables: CustomVariable[]): Record<string, string | undefined> {
+  const metadata: Record<string, string | undefined> = {};
+  for (const { name, source } of variables) {
+    const value = getValueAtPath(data, source)?.trim();
+    metadata[name] = value ? escapeMarkdownChars(value) : undefined;
+  }
+  return metadata;
+}
+
+/**
+ * A client built from a `CustomClientConfig`.
+ */
+export class CustomClient extends Client {
+  readonly name: string;
+  displayName: string;
+  defaultFormat: string;
+  private pattern: RegExp | null;
+
+  constructor(private config: CustomClientConfig) {
+    super();
+    this.name = `custom-${config.id}`;
+    this.displayName = config.displayName || 'Custom client';
+    this.defaultFormat = config.format;
+    this.pattern = compilePattern(config.pattern);
+  }
+
+  getAvailableVariables(): string[] {
+    return [...this.config.variables.map(v => v.name), "url"];
+  }
+
+  matches(url: string): boolean {
+    return this.config.enabled && !!this.pattern?.test(url);
+  }
+
+  async fetchMetadata(
+    url: string,
+    signal?: AbortSignal
+  ): Promise<Record<string, string | undefined>> {
+    if (this.config.strategy === 'json') {
+      if (!this.config.endpoint.trim()) {
+        throw new Error(`${this.displayName} has no endpoint`);
+      }
+      const match = this.pattern ? normalizeUrl(url).match(this.pattern) : null;
+      const endpoint = fillEndpoint(this.config.endpoint, url, match);
+      const response = await request({ url: endpoint, method: "GET", headers: { "Accept": "application/json" } }, signal);
+      return extractJsonVariables(JSON.parse(response.text), this.config.variables);
+    }
+
+    const response = await request({ url: url, method: "GET" }, signal);
+    const doc = new DOMParser().parseFromString(response.text, "text/html");
+    return extractHtmlVariables(doc, this.config.variables);
+  }
+}
@@ -0,0 +1,101 @@
+import { Editor } from "obsidian";
+import { Transaction } from "@codemirror/state";
+import { EditorView } from "@codemirror/view";
+
+// Not joinable by the CodeMirror history, so a batch never merges with the user's own typing or paste
+const FORMAT_USER_EVENT = "smart-link-formatter.format";
+
+interface BatchEntry {
+  original: string;
+  result?: string;
+}
+
+/**
+ * Groups the edits of a batch of link formats into a single undo step.
+ *
+ * Placeholders are inserted and removed outside the undo history, and every final
+ * link is written in one transaction once the whole batch has settled, so a single
+ * undo restores the bare URLs. Only available when the editor exposes CodeMirror 6;
+ * callers should fall back to per-link edits when `grouped` is false.
+ *
+ * The trade-off is that finished links stay behind their placeholders until the
+ * slowest link in the batch settles or times out. Writing each link as it arrives
+ * would add one undo step per link.
+ */
+export class EditBatch {
+  private entries: Map<string, BatchEntry> = new Map();
+
+  constructor(private editor: Editor) {}
+
+  get grouped(): boolean {
+    return !!this.view;
+  }
+
+  // `cm` is not part of Obsidian's public API, so editors without it are handled too
+  private get view(): EditorView | undefined {
+    return "cm" in this.editor ? this.editor.cm : undefined;
+  }
+
+  /**
+   * Replaces the current selection with a placeholder, outside the undo history.
+   * @param placeholder - The unique placeholder text.
+   * @param original - The text being replaced, restored if the link is left unchanged.
+   */
+  insertPlaceholder(placeholder: string, original: string): void {
+    const view = this.view;
+    if (!view) return;
+
+    this.entries.set(placeholder, { original });
+    view.dispatch(view.state.replaceSelection(placeholder), {
+      annotations: Transaction.addToHistory.of(false),
+    });
+  }
+
+  /**
+   * Records the final text for a placeholder. Nothing is written until `commit`.
+   */
+  settle(placeholder: string, result: string): void {
+    const entry = this.entries.get(placeholder);
+    if (entry) entry.result = result;
+  }
+
+  /**
+   * Writes every settled link as a single undoable transaction.
+   * Placeholders the user deleted in the meantime are skipped.
+   * @returns The placeholders that belonged to this batch.
+   */
+  commit(): string[] {
+    const placeholders = Array.from(this.entries.keys());
+    const view = this.view;
+    if (!view) return placeholders;
+
+    const doc = view.state.doc.toString();
+    const found = Array.from(this.entries.entries())
+      .map(([placeholder, entry]) => ({ placeholder, entry, from: doc.indexOf(placeholder) }))
+      .filter(({ from }) => from !== -1)
+      .sort((a, b) => a.from - b.from);
+
+    this.entries.clear();
+    if (found.length === 0) return placeholders;
+
+    const revert = view.state.update({
+      changes: found.map(({ placeholder, entry, from }) => ({
+        from,
+        to: from + placeholder.length,
+        insert: entry.original,
+      })),
+      annotations: Transaction.addToHistory.of(false),
+    });
+    view.dispatch(revert);
+
+    view.dispatch({
+      changes: found.map(({ entry, from }) => {
+        const start = revert.changes.mapPos(from, -1);
+        return { from: start, to: start + entry.original.length, insert: entry.result ?? entry.original };
+      }),
+      userEvent: FORMAT_USER_EVENT,
+    });
+
+    return placeholders;
+  }
+}
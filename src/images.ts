@@ -0,0 +1,195 @@
+import { App, TFile } from "obsidian";
+import { request, throwIfCancelled } from "request";
+
+/** How much of an image is requested to read its header. */
+export const IMAGE_HEADER_BYTES = 64 * 1024;
+
+/**
+ * What an image's first bytes tell about it.
+ */
+export interface ImageHeader {
+  mime: string;
+  width?: number;
+  height?: number;
+}
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/bmp": "bmp",
+  "image/svg+xml": "svg",
+};
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0): boolean {
+  return signature.every((byte, i) => bytes[offset + i] === byte);
+}
+
+function ascii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+/**
+ * Reads the type and dimensions of a PNG, JPEG, GIF, WebP, BMP or SVG image
+ * from its first bytes.
+ * @param bytes - The start of the file; dimensions stay undefined if they lie beyond it.
+ * @returns The header, or null if the bytes are not a recognized image.
+ */
+export function readImageHeader(bytes: Uint8Array): ImageHeader | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const has = (length: number) => bytes.length >= length;
+
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return has(24)
+      ? { mime: "image/png", width: view.getUint32(16), height: view.getUint32(20) }
+      : { mime: "image/png" };
+  }
+
+  if (ascii(bytes, 0, 4) === "GIF8") {
+    return has(10)
+      ? { mime: "image/gif", width: view.getUint16(6, true), height: view.getUint16(8, true) }
+      : { mime: "image/gif" };
+  }
+
+  if (ascii(bytes, 0, 2) === "BM") {
+    return has(26)
+      ? { mime: "image/bmp", width: view.getInt32(18, true), height: Math.abs(view.getInt32(22, true)) }
+      : { mime: "image/bmp" };
+  }
+
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 4) === "WEBP") {
+    const chunk = ascii(bytes, 12, 4);
+    if (chunk === "VP8 " && has(30)) {
+      return { mime: "image/webp", width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+    }
+    if (chunk === "VP8L" && has(25)) {
+      const [b0, b1, b2, b3] = bytes.subarray(21, 25);
+      return {
+        mime: "image/webp",
+        width: 1 + (((b1 & 0x3f) << 8) | b0),
+        height: 1 + (((b3 & 0x0f) << 10) | (b2 << 2) | ((b1 & 0xc0) >> 6)),
+      };
+    }
+    if (chunk === "VP8X" && has(30)) {
+      const uint24 = (offset: number) => bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+      return { mime: "image/webp", width: 1 + uint24(24), height: 1 + uint24(27) };
+    }
+    return { mime: "image/webp" };
+  }
+
+  if (startsWith(bytes, [0xff, 0xd8])) {
+    // Walk the segments up to the start-of-frame marker, which holds the dimensions
+    let offset = 2;
+    while (offset + 9 <= bytes.length && bytes[offset] === 0xff) {
+      const marker = bytes[offset + 1];
+      if (marker === 0xff) {
+        offset++;
+        continue;
+      }
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { mime: "image/jpeg", width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+    return { mime: "image/jpeg" };
+  }
+
+  const text = new TextDecoder().decode(bytes.subarray(0, 4096));
+  const svg = text.match(/<svg\b[^>]*>/i)?.[0];
+  if (svg) {
+    const attribute = (name: string) => svg.match(new RegExp(`\\s${name}\\s*=\\s*["']\\s*([\\d.]+)(?:px)?\\s*["']`))?.[1];
+    const viewBox = svg.match(/\sviewBox\s*=\s*["']\s*[\d.-]+[\s,]+[\d.-]+[\s,]+([\d.]+)[\s,]+([\d.]+)/);
+    const width = attribute("width") ?? viewBox?.[1];
+    const height = attribute("height") ?? viewBox?.[2];
+    return {
+      mime: "image/svg+xml",
+      width: width ? Math.round(Number(width)) : undefined,
+      height: height ? Math.round(Number(height)) : undefined,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Builds a file name for a downloaded image from its URL, without characters
+ * Obsidian does not allow in file names.
+ * @param url - The image URL.
+ * @param mime - Used to add an extension if the URL has none.
+ */
+export function getImageFilename(url: string, mime?: string): string {
+  let name = new URL(url).pathname.split("/").pop() ?? "";
+  try {
+    name = decodeURIComponent(name);
+  } catch {
+    // Keep the name as it appears in the URL
+  }
+  name = name.replace(/[\\/:*?"<>|#^[\]]/g, "-").trim() || "image";
+
+  const extension = mime ? MIME_EXTENSIONS[mime] : undefined;
+  if (extension && !/\.\w{2,4}$/.test(name)) {
+    name += `.${extension}`;
+  }
+  return name;
+}
+
+function equalBytes(a: ArrayBuffer, b: ArrayBuffer): boolean {
+  if (a.byteLength !== b.byteLength) return false;
+  const left = new Uint8Array(a);
+  const right = new Uint8Array(b);
+  return left.every((byte, i) => byte === right[i]);
+}
+
+/**
+ * Finds an image already in the vault with the same content, saved under the
+ * given file name or a numbered copy of it (e.g. "image 1.png").
+ * @param app - The Obsidian app.
+ * @param filename - The name the image would be saved under.
+ * @param data - The image content.
+ * @returns The existing file, or null if there is none.
+ */
+export async function findExistingImage(app: App, filename: string, data: ArrayBuffer): Promise<TFile | null> {
+  const dot = filename.lastIndexOf(".");
+  const basename = dot > 0 ? filename.slice(0, dot) : filename;
+  const extension = dot > 0 ? filename.slice(dot + 1) : "";
+  const isCopy = (name: string) => name === basename
+    || (name.startsWith(`${basename} `) && /^\d+$/.test(name.slice(basename.length + 1)));
+
+  const candidates = app.vault.getFiles().filter(file =>
+    file.extension === extension && isCopy(file.basename) && file.stat.size === data.byteLength
+  );
+  for (const file of candidates) {
+    if (equalBytes(await app.vault.readBinary(file), data)) {
+      return file;
+    }
+  }
+  return null;
+}
+
+/**
+ * Downloads an image into the attachment folder configured for a note.
+ * If the same image was saved before, the existing file is returned instead of a copy.
+ * @param app - The Obsidian app.
+ * @param url - The image URL.
+ * @param sourcePath - The note the image is embedded in.
+ * @param signal - Cancels the download.
+ * @returns The saved or existing file.
+ */
+export async function saveImageAttachment(app: App, url: string, sourcePath: string, signal?: AbortSignal): Promise<TFile> {
+  const response = await request({ url: url, method: "GET" }, signal);
+  const header = readImageHeader(new Uint8Array(response.arrayBuffer));
+  if (!header) {
+    throw new Error("The link did not return an image");
+  }
+
+  const filename = getImageFilename(url, header.mime);
+  const existing = await findExistingImage(app, filename, response.arrayBuffer);
+  if (existing) {
+    return existing;
+  }
+
+  const path = await app.fileManager.getAvailablePathForAttachment(filename, sourcePath);
+  throwIfCancelled(signal);
+  return app.vault.createBinary(path, response.arrayBuffer);
+}
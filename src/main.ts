@@ -1,11 +1,22 @@
-import { Plugin, Editor, Notice } from "obsidian";
+import { Plugin, Editor, Notice, TFile, TFolder } from "obsidian";
 import {
   LinkFormatterSettings,
-  DEFAULT_SETTINGS,
+  withDefaultSettings,
   LinkFormatterSettingTab,
 } from "./settings";
-import { CLIENTS } from "clients";
+import { Client, UnsupportedLinkError, createClients, formatTemplate } from "clients";
+import { MetadataCache } from "cache";
+import { BulkReportModal, CacheModal, FolderSuggestModal, RetryQueueModal } from "modals";
+import { formatLinksInFiles, getMarkdownFilesInFolder } from "bulk";
+import { EditBatch } from "edit-batch";
+import { CustomClient } from "custom-clients";
+import { ClientPriority, ClientRegistry } from "registry";
+import { API_READY_EVENT, API_VERSION, SmartLinkFormatterApi } from "api";
+import { CancelledError, raceSignal } from "request";
+import { RequestScheduler } from "scheduler";
+import { RetryQueue, findInactivePlaceholders, generateInactivePlaceholder } from "retry";
 import { generateUniqueToken } from "title-utils";
+import { saveImageAttachment } from "images";
 import { isLink, extractUrlAtCursor, unescapeHtml, isPositionProtected, findUnformattedUrls, normalizeUrl } from "utils";
 import { FailureMode } from "types/failure-mode";
 import { MarkdownView } from "obsidian"
@@ -17,10 +28,35 @@ const placeholderPattern = /<span class="link-loading" id="(link-placeholder-[^"
 
 export default class SmartLinkFormatterPlugin extends Plugin {
   settings: LinkFormatterSettings;
-  private activePlaceholders: Set<string> = new Set();
+  cache: MetadataCache;
+  retryQueue: RetryQueue;
+  private scheduler = new RequestScheduler(() => ({
+    maxConcurrent: this.settings.maxConcurrentRequests,
+    maxPerHost: this.settings.maxRequestsPerHost,
+    hostSpacingMs: this.settings.hostRequestSpacingMs,
+  }));
+  private clients = new ClientRegistry(createClients(() => this.settings));
+  private activePlaceholders: Map<string, { controller: AbortController; path?: string }> = new Map();
+  private pendingControllers: Set<AbortController> = new Set();
+
+  /** Stable API for other plugins to register their own clients. */
+  readonly api: SmartLinkFormatterApi = {
+    version: API_VERSION,
+    Client,
+    UnsupportedLinkError,
+    ClientPriority,
+    formatTemplate,
+    registerClient: (client, priority) => this.clients.register(client, priority),
+    unregisterClient: (name) => this.clients.unregister(name),
+    getClients: () => this.getClients(),
+  };
 
   async onload() {
     await this.loadSettings();
+    this.cache = new MetadataCache(this);
+    await this.cache.load();
+    this.retryQueue = new RetryQueue(this);
+    await this.retryQueue.load();
     this.addSettingTab(new LinkFormatterSettingTab(this.app, this));
 
     this.registerEvent(
@@ -33,6 +69,12 @@ export default class SmartLinkFormatterPlugin extends Plugin {
       )
     );
 
+    this.registerEvent(
+      this.app.workspace.on("editor-change", (editor, info) => {
+        this.cancelRemovedPlaceholders(editor, info.file?.path);
+      })
+    );
+
     this.registerEvent(
       this.app.workspace.on("file-open", (file) => {
         if (file) {
@@ -53,11 +95,166 @@ export default class SmartLinkFormatterPlugin extends Plugin {
       id: 'format-all-links',
       name: 'Format all links',
       editorCallback: (editor: Editor) => {
-        this.formatAllLinks(editor);
+        void this.formatAllLinks(editor);
+      }
+    });
+
+    this.addCommand({
+      id: 'format-links-in-folder',
+      name: 'Format all links in folder...',
+      callback: () => {
+        new FolderSuggestModal(this.app, (folder) => {
+          void this.formatLinksInFiles(getMarkdownFilesInFolder(folder), false);
+        }).open();
+      }
+    });
+
+    this.addCommand({
+      id: 'preview-links-in-folder',
+      name: 'Preview formatting all links in folder...',
+      callback: () => {
+        new FolderSuggestModal(this.app, (folder) => {
+          void this.formatLinksInFiles(getMarkdownFilesInFolder(folder), true);
+        }).open();
+      }
+    });
+
+    this.addCommand({
+      id: 'format-links-in-vault',
+      name: 'Format all links in vault',
+      callback: () => {
+        void this.formatLinksInFiles(this.app.vault.getMarkdownFiles(), false);
+      }
+    });
+
+    this.addCommand({
+      id: 'preview-links-in-vault',
+      name: 'Preview formatting all links in vault',
+      callback: () => {
+        void this.formatLinksInFiles(this.app.vault.getMarkdownFiles(), true);
+      }
+    });
+
+    this.registerEvent(
+      this.app.workspace.on("file-menu", (menu, file) => {
+        if (!(file instanceof TFolder)) return;
+        menu.addItem((item) => item
+          .setTitle("Format all links in folder")
+          .setIcon("link")
+          .onClick(() => void this.formatLinksInFiles(getMarkdownFilesInFolder(file), false)));
+        menu.addItem((item) => item
+          .setTitle("Preview formatting all links in folder")
+          .setIcon("link")
+          .onClick(() => void this.formatLinksInFiles(getMarkdownFilesInFolder(file), true)));
+      })
+    );
+
+    this.addCommand({
+      id: 'show-metadata-cache',
+      name: 'Show link metadata cache',
+      callback: () => {
+        new CacheModal(this.app, this.cache).open();
+      }
+    });
+
+    this.addCommand({
+      id: 'prune-metadata-cache',
+      name: 'Prune expired link metadata',
+      callback: async () => {
+        const removed = await this.cache.prune();
+        new Notice(`Pruned ${removed} expired cache entr${removed === 1 ? 'y' : 'ies'}`);
+      }
+    });
+
+    this.addCommand({
+      id: 'clear-metadata-cache',
+      name: 'Clear link metadata cache',
+      callback: async () => {
+        const removed = await this.cache.clear();
+        new Notice(`Cleared ${removed} cached link${removed === 1 ? '' : 's'}`);
+      }
+    });
+
+    this.addCommand({
+      id: 'retry-failed-links-in-note',
+      name: 'Retry failed links in current note',
+      checkCallback: (checking: boolean) => {
+        const file = this.app.workspace.getActiveFile();
+        if (!file) return false;
+        if (!checking) void this.retryFailedLinks([file]);
+        return true;
+      }
+    });
+
+    this.addCommand({
+      id: 'retry-failed-links-in-vault',
+      name: 'Retry failed links in vault',
+      callback: () => {
+        void this.retryFailedLinks(this.app.vault.getMarkdownFiles(), true);
+      }
+    });
+
+    this.addCommand({
+      id: 'show-failed-links',
+      name: 'Show failed links',
+      callback: () => {
+        new RetryQueueModal(this.app, this.retryQueue).open();
+      }
+    });
+
+    this.addCommand({
+      id: 'cancel-pending-formatting',
+      name: 'Cancel pending link formatting',
+      callback: () => {
+        const count = this.cancelPendingFormatting();
+        new Notice(count === 0
+          ? "No link formatting in progress"
+          : `Cancelled ${count} pending link${count > 1 ? 's' : ''}`);
       }
     });
 
     this.cleanupOrphanedPlaceholders();
+    this.app.workspace.trigger(API_READY_EVENT, this.api);
+  }
+
+  async onunload() {
+    this.cancelPendingFormatting();
+    await this.cache?.save();
+  }
+
+  /**
+   * Cancels every in-flight fetch. Placeholders of cancelled links revert to their URL.
+   * @returns The number of operations cancelled.
+   */
+  cancelPendingFormatting(): number {
+    const controllers = Array.from(this.pendingControllers);
+    this.pendingControllers.clear();
+    for (const controller of controllers) {
+      controller.abort();
+    }
+    return controllers.length;
+  }
+
+  private createController(): AbortController {
+    const controller = new AbortController();
+    this.pendingControllers.add(controller);
+    return controller;
+  }
+
+  /**
+   * Cancels fetches whose placeholder the user deleted from the note.
+   * @param editor - The editor that changed.
+   * @param path - The path of the note shown in the editor.
+   */
+  private cancelRemovedPlaceholders(editor: Editor, path: string | undefined) {
+    if (this.activePlaceholders.size === 0 || !path) return;
+
+    const content = editor.getValue();
+    for (const [placeholder, pending] of this.activePlaceholders) {
+      if (pending.path === path && !content.includes(placeholder)) {
+        pending.controller.abort();
+      }
+    }
   }
 
   private cleanupOrphanedPlaceholders() {
@@ -80,25 +277,151 @@ export default class SmartLinkFormatterPlugin extends Plugin {
 
     if (orphanedMatches.length === 0) return;
 
+    const path = activeView.file?.path;
     for (let i = orphanedMatches.length - 1; i >= 0; i--) {
       const { match, index } = orphanedMatches[i];
       const fullMatch = match[0];
       const placeholderId = match[1];
       const url = match[2] || '';
 
-      const inactivePlaceholder = `<span class="link-loading-inactive" id="${placeholderId}" url="${url}">Failed to resolve</span>`;
+      const inactivePlaceholder = generateInactivePlaceholder(placeholderId, url);
       const startPos = editor.offsetToPos(index);
       const endPos = editor.offsetToPos(index + fullMatch.length);
       editor.replaceRange(inactivePlaceholder, startPos, endPos);
+
+      if (path) {
+        this.retryQueue.enqueue(placeholderId, url, path);
+      }
+    }
+    void this.retryQueue.save();
+  }
+
+  /**
+   * Runs every "Failed to resolve" placeholder in the given notes through its client again.
+   * Resolved placeholders are replaced; failures stay queued with their retry count and error.
+   * @param files - The notes to scan.
+   * @param wholeVault - Whether the files cover the whole vault, so queue entries of deleted notes can be dropped.
+   */
+  async retryFailedLinks(files: TFile[], wholeVault = false) {
+    const notice = new Notice("Retrying failed links...", 0);
+    const controller = this.createController();
+    const scannedPaths = new Set<string>();
+    const foundIds = new Set<string>();
+    let resolved = 0;
+    let failed = 0;
+
+    for (const file of files) {
+      scannedPaths.add(file.path);
+      const editor = this.getEditorForFile(file);
+      const content = editor ? editor.getValue() : await this.app.vault.cachedRead(file);
+      const placeholders = findInactivePlaceholders(content);
+      if (placeholders.length === 0) continue;
+
+      const replacements = new Map<string, string>();
+      await Promise.all(placeholders.map(async ({ id, url, text }) => {
+        foundIds.add(id);
+        this.retryQueue.enqueue(id, url, file.path);
+        try {
+          replacements.set(text, await this.resolveLink(url, controller.signal, file.path));
+          this.retryQueue.remove(id);
+          resolved++;
+        } catch (error) {
+          if (error instanceof CancelledError) return;
+          console.error(`Smart Link Formatter: Retry failed for ${url}:`, error);
+          this.retryQueue.recordFailure(id, error);
+          failed++;
+        }
+      }));
+
+      if (replacements.size > 0) {
+        await this.replaceInFile(file, replacements);
+      }
+    }
+
+    this.pendingControllers.delete(controller);
+    this.retryQueue.reconcile(wholeVault ? null : scannedPaths, foundIds);
+    await this.retryQueue.save();
+
+    notice.hide();
+    if (resolved + failed === 0) {
+      new Notice("No failed links found");
+    } else {
+      new Notice(`Resolved ${resolved} of ${resolved + failed} failed link${resolved + failed > 1 ? 's' : ''}`);
+    }
+  }
+
+  /**
+   * Formats every unformatted URL in the given notes through the vault API, then shows a report.
+   * @param files - The notes to format.
+   * @param dryRun - Whether to only preview the replacements.
+   */
+  async formatLinksInFiles(files: TFile[], dryRun: boolean) {
+    const notice = new Notice(dryRun ? "Previewing links..." : "Formatting links...", 0);
+    const controller = this.createController();
+    const report = await formatLinksInFiles(this, files, dryRun, (done, total) => {
+      notice.setMessage(`${dryRun ? "Previewing" : "Formatting"} links... ${done}/${total}`);
+    }, controller.signal);
+    this.pendingControllers.delete(controller);
+    notice.hide();
+
+    if (report.links.length === 0 && report.skipped.length === 0) {
+      new Notice("No unformatted links found");
+      return;
+    }
+
+    new BulkReportModal(this.app, report, dryRun ? () => void this.formatLinksInFiles(files, false) : undefined).open();
+  }
+
+  private getEditorForFile(file: TFile): Editor | null {
+    const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+    return activeView?.file?.path === file.path ? activeView.editor : null;
+  }
+
+  /**
+   * Replaces exact text occurrences in a note, through its open editor if there is one.
+   * @param file - The note to edit.
+   * @param replacements - Maps the text to find to its replacement.
+   */
+  private async replaceInFile(file: TFile, replacements: Map<string, string>) {
+    const editor = this.getEditorForFile(file);
+    if (!editor) {
+      await this.app.vault.process(file, (data) => {
+        for (const [from, to] of replacements) {
+          data = data.split(from).join(to);
+        }
+        return data;
+      });
+      return;
+    }
+
+    for (const [from, to] of replacements) {
+      const content = editor.getValue();
+      const index = content.indexOf(from);
+      if (index === -1) continue;
+      editor.replaceRange(to, editor.offsetToPos(index), editor.offsetToPos(index + from.length));
     }
   }
 
   async loadSettings() {
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    this.settings = withDefaultSettings(await this.loadData());
+    this.refreshClients();
   }
 
   async saveSettings() {
     await this.saveData(this.settings);
+    this.refreshClients();
+  }
+
+  private refreshClients() {
+    this.clients.setCustomClients(this.settings.customClients.map(config => new CustomClient(config)));
+  }
+
+  /**
+   * Lists every client in matching order, including custom clients from the
+   * settings and clients registered by other plugins.
+   */
+  getClients(): Client[] {
+    return this.clients.list();
   }
 
   async handlePaste(evt: ClipboardEvent, editor: Editor) {
@@ -127,53 +450,189 @@ export default class SmartLinkFormatterPlugin extends Plugin {
       const startLine = cursor.line;
       editor.replaceSelection(clipboardText);
       const endLine = editor.getCursor().line;
-      this.formatLinksInRange(editor, startLine, endLine);
+      void this.formatLinksInRange(editor, startLine, endLine);
     }
   }
 
-  private async handleFormat(clipboardText: string, editor: Editor) {
+  /**
+   * Formats a URL in place of the current selection, showing a placeholder while it loads.
+   * @param clipboardText - The URL to format.
+   * @param editor - The editor to insert into.
+   * @param batch - When given, edits are grouped with the rest of the batch into one undo step.
+   */
+  private async handleFormat(clipboardText: string, editor: Editor, batch?: EditBatch) {
     const token = generateUniqueToken(clipboardText);
     const placeholder = generatePlaceholder(token);
-    this.activePlaceholders.add(placeholder);
+    const controller = this.createController();
 
-    editor.replaceSelection(placeholder);
-
-    const timeoutPromise = new Promise((_, reject) =>
-      window.setTimeout(() => reject(new Error('Fetch timeout')), this.settings.timeoutSeconds * 1000)
-    );
-
-    let didReplace = false;
+    if (batch?.grouped) {
+      batch.insertPlaceholder(placeholder, clipboardText);
+    } else {
+      editor.replaceSelection(placeholder);
+    }
+    const path = this.app.workspace.getActiveFile()?.path;
+    this.activePlaceholders.set(placeholder, { controller, path });
 
+    let newText: string;
+    let cancelled = false;
     try {
-      const normalized = normalizeUrl(clipboardText);
-      const client = CLIENTS.find(client => client.matches(normalized));
-      if (client) {
-        const metadata = await Promise.race([
-          client.fetchMetadata(clipboardText),
-          timeoutPromise
-        ]) as Record<string, string | undefined>;
-        
-        const formattedText = unescapeHtml(
-          client.format(metadata, clipboardText, this)
-        );
-        
-        didReplace = this.replacePlaceholder(placeholder, formattedText, editor);
+      newText = await this.resolveLink(clipboardText, controller.signal, path);
+    } catch (error) {
+      if (error instanceof CancelledError) {
+        cancelled = true;
+        newText = clipboardText;
       } else {
-        throw new Error("No client found for link");
+        console.error("Failed to format link:", error);
+        new Notice("Failed to format link");
+
+        newText = FailureMode.format(this.settings.failureMode, clipboardText);
       }
-    } catch (error) {
-      console.error("Failed to format link:", error);
-      new Notice("Failed to format link");
+    }
+    this.pendingControllers.delete(controller);
 
-      const failureText = FailureMode.format(this.settings.failureMode, clipboardText);
-      didReplace = this.replacePlaceholder(placeholder, failureText, editor);
+    if (batch?.grouped) {
+      batch.settle(placeholder, newText);
+      return;
+    }
+
+    if (cancelled && !editor.getValue().includes(placeholder)) {
+      // The placeholder was deleted, which is what cancelled the fetch
+      this.activePlaceholders.delete(placeholder);
+      return;
     }
 
+    const didReplace = this.replacePlaceholder(placeholder, newText, editor);
     if (!didReplace) {
       this.cleanupOrphanedPlaceholders();
     }
   }
-  
+
+  /**
+   * Finds the client responsible for a URL.
+   * @param url - The URL to match.
+   * @returns The first matching client, if any.
+   */
+  findClient(url: string): Client | undefined {
+    const normalized = normalizeUrl(url);
+    return this.getClients().find(client => client.matches(normalized));
+  }
+
+  /**
+   * Resolves a URL into its formatted markdown using the matching client.
+   * Clients that throw an UnsupportedLinkError hand the link to the next matching client.
+   * A fresh cache entry from any matching client is used before trying the others.
+   * @param url - The URL to format.
+   * @param signal - Cancels the fetch.
+   * @param sourcePath - The note the link is inserted into. Images are only downloaded into the vault when it is given.
+   * @returns The formatted link text.
+   * @throws If no client matches, the fetch fails, or it exceeds the timeout.
+   * A CancelledError is thrown if the signal aborts first.
+   */
+  async resolveLink(url: string, signal?: AbortSignal, sourcePath?: string): Promise<string> {
+    const normalized = normalizeUrl(url);
+    const matching = this.getClients().filter(client => client.matches(normalized));
+
+    // A fresh entry from any matching client wins, so links cached by a fallback
+    // client do not wait for the clients tried before it
+    const cached = this.settings.cacheEnabled ? this.cache.get(url) : undefined;
+    const cachedClient = cached && !this.cache.isExpired(cached)
+      ? matching.find(client => client.name === cached.client)
+      : undefined;
+    const clients = cachedClient ? [cachedClient] : matching;
+
+    for (const client of clients) {
+      try {
+        const metadata = await this.fetchMetadata(client, url, signal);
+        if (client.name === "image" && this.settings.downloadImages && sourcePath !== undefined) {
+          const file = await this.runWithTimeout(url, timeoutSignal => saveImageAttachment(this.app, url, sourcePath, timeoutSignal), signal);
+          const target = this.app.metadataCache.fileToLinktext(file, sourcePath, false);
+          return unescapeHtml(client.format(metadata, encodeURI(target), this));
+        }
+        return unescapeHtml(client.format(metadata, url, this));
+      } catch (error) {
+        if (!(error instanceof UnsupportedLinkError)) throw error;
+      }
+    }
+
+    throw new Error("No client found for link");
+  }
+
+  /**
+   * Runs a request for a URL through the request scheduler, with the configured timeout.
+   * The timeout only starts once the scheduler lets the request run, and cancels the work when it fires.
+   * @param url - The URL, used to rate-limit its host.
+   * @param work - The request; its signal aborts on cancellation or timeout.
+   * @param signal - Cancels the work, or removes it from the scheduler queue.
+   * @returns The work's result.
+   */
+  private runWithTimeout<T>(url: string, work: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    return this.scheduler.schedule(url, async () => {
+      const controller = new AbortController();
+      const abort = () => controller.abort();
+      signal?.addEventListener("abort", abort, { once: true });
+
+      let timedOut = false;
+      const timer = window.setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, this.settings.timeoutSeconds * 1000);
+
+      try {
+        return await raceSignal(work(controller.signal), controller.signal);
+      } catch (error) {
+        if (timedOut) throw new Error('Fetch timeout');
+        throw error;
+      } finally {
+        window.clearTimeout(timer);
+        signal?.removeEventListener("abort", abort);
+      }
+    }, signal);
+  }
+
+  /**
+   * Fetches metadata for a URL through the metadata cache and the request scheduler.
+   * Fresh cache entries skip the network entirely; expired ones are used when fetching fails.
+   * @param client - The client matched to the URL.
+   * @param url - The URL to fetch metadata for.
+   * @param signal - Cancels the fetch, or removes it from the scheduler queue.
+   * @returns The link metadata.
+   */
+  private async fetchMetadata(
+    client: Client,
+    url: string,
+    signal?: AbortSignal
+  ): Promise<Record<string, string | undefined>> {
+    const fetchWithTimeout = () => this.runWithTimeout(url, timeoutSignal => client.fetchMetadata(url, timeoutSignal), signal);
+
+    if (!this.settings.cacheEnabled) {
+      return fetchWithTimeout();
+    }
+
+    const cached = this.cache.get(url);
+    const usable = cached?.client === client.name ? cached : undefined;
+    if (usable && !this.cache.isExpired(usable)) {
+      return usable.metadata;
+    }
+
+    try {
+      const metadata = await fetchWithTimeout();
+      if (Object.values(metadata).some(value => value !== undefined && value !== url)) {
+        this.cache.set(url, client.name, metadata, this.getCacheTtl(client));
+      }
+      return metadata;
+    } catch (error) {
+      if (usable && !(error instanceof CancelledError) && !(error instanceof UnsupportedLinkError)) {
+        console.warn("Smart Link Formatter: Fetch failed, using expired cache entry.", error);
+        return usable.metadata;
+      }
+      throw error;
+    }
+  }
+
+  private getCacheTtl(client: Client): number {
+    return this.settings.cacheTtlHours[client.name] ?? client.defaultCacheTtlHours;
+  }
+
   private shouldReplace(editor: Editor, text: string): boolean {
     if (!isLink(text)) return false;
 
@@ -203,7 +662,7 @@ export default class SmartLinkFormatterPlugin extends Plugin {
     return false;
   }
 
-  private isBlacklisted(text: string): boolean {
+  isBlacklisted(text: string): boolean {
     try {
       const url = new URL(text);
       const blacklist = this.settings.blacklistedDomains
@@ -259,20 +718,39 @@ export default class SmartLinkFormatterPlugin extends Plugin {
     return didReplace;
   }
 
-  private formatLinksInRange(editor: Editor, startLine: number, endLine: number): number {
+  /**
+   * Formats every unformatted URL in a line range as a single undo step.
+   * @param onProgress - Called after each link settles with the number done and the total.
+   * @returns The number of URLs formatted.
+   */
+  private async formatLinksInRange(
+    editor: Editor,
+    startLine: number,
+    endLine: number,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<number> {
     const allLines = editor.getValue().split('\n');
     const urls = findUnformattedUrls(allLines, startLine, endLine)
       .filter(u => !this.isBlacklisted(u.url));
 
-    for (const { url, line, start, end } of urls.reverse()) {
+    const batch = new EditBatch(editor);
+    let completed = 0;
+    const tasks = urls.reverse().map(({ url, line, start, end }) => {
       editor.setSelection({ line, ch: start }, { line, ch: end });
-      void this.handleFormat(url, editor);
+      return this.handleFormat(url, editor, batch).then(() => {
+        onProgress?.(++completed, urls.length);
+      });
+    });
+
+    await Promise.all(tasks);
+    for (const placeholder of batch.commit()) {
+      this.activePlaceholders.delete(placeholder);
     }
 
     return urls.length;
   }
 
-  private formatAllLinks(editor: Editor) {
+  private async formatAllLinks(editor: Editor) {
     let startLine: number, endLine: number;
     if (editor.somethingSelected()) {
       startLine = editor.getCursor('from').line;
@@ -282,12 +760,16 @@ export default class SmartLinkFormatterPlugin extends Plugin {
       endLine = editor.getValue().split('\n').length - 1;
     }
 
-    const count = this.formatLinksInRange(editor, startLine, endLine);
+    const notice = new Notice("Formatting links...", 0);
+    const count = await this.formatLinksInRange(editor, startLine, endLine, (done, total) => {
+      notice.setMessage(`Formatting links... ${done}/${total}`);
+    });
+    notice.hide();
 
     if (count === 0) {
       new Notice("No unformatted links found");
     } else {
-      new Notice(`Formatting ${count} link${count > 1 ? 's' : ''}...`);
+      new Notice(`Formatted ${count} link${count > 1 ? 's' : ''}`);
     }
   }
 
@@ -0,0 +1,205 @@
+import { App, FuzzySuggestModal, Modal, Notice, Setting, TFolder } from "obsidian";
+import { MetadataCache } from "cache";
+import { BulkReport } from "bulk";
+import { RetryQueue } from "retry";
+
+const MAX_LISTED_ENTRIES = 200;
+
+/**
+ * Lists cached link metadata with actions to prune or clear the cache.
+ */
+export class CacheModal extends Modal {
+  constructor(app: App, private cache: MetadataCache) {
+    super(app);
+  }
+
+  onOpen(): void {
+    this.render();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText('Link metadata cache');
+
+    const entries = this.cache.list();
+    const expired = entries.filter(({ entry }) => this.cache.isExpired(entry)).length;
+
+    new Setting(contentEl)
+      .setName(`${entries.length} cached link${entries.length === 1 ? '' : 's'}`)
+      .setDesc(`${expired} expired`)
+      .addButton(button => button
+        .setButtonText('Prune expired')
+        .onClick(async () => {
+          const removed = await this.cache.prune();
+          new Notice(`Pruned ${removed} expired cache entr${removed === 1 ? 'y' : 'ies'}`);
+          this.render();
+        }))
+      .addButton(button => button
+        .setButtonText('Clear all')
+        .setWarning()
+        .onClick(async () => {
+          const removed = await this.cache.clear();
+          new Notice(`Cleared ${removed} cached link${removed === 1 ? '' : 's'}`);
+          this.render();
+        }));
+
+    const list = contentEl.createEl('ul', { cls: 'smart-link-formatter-modal-list' });
+    for (const { url, entry } of entries.slice(0, MAX_LISTED_ENTRIES)) {
+      const item = list.createEl('li');
+      item.createEl('code', { text: url });
+      const status = this.cache.isExpired(entry)
+        ? 'expired'
+        : `expires ${window.moment(entry.expiresAt).fromNow()}`;
+      item.createDiv({
+        cls: 'smart-link-formatter-modal-meta',
+        text: `${entry.client} · fetched ${window.moment(entry.fetchedAt).fromNow()} · ${status}`,
+      });
+    }
+
+    if (entries.length > MAX_LISTED_ENTRIES) {
+      contentEl.createDiv({
+        cls: 'smart-link-formatter-modal-meta',
+        text: `…and ${entries.length - MAX_LISTED_ENTRIES} more`,
+      });
+    }
+  }
+}
+
+/**
+ * Lists links that failed to resolve along with their retry history.
+ */
+export class RetryQueueModal extends Modal {
+  constructor(app: App, private queue: RetryQueue) {
+    super(app);
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    this.titleEl.setText('Failed links');
+
+    const entries = this.queue.list();
+    if (entries.length === 0) {
+      contentEl.createDiv({ text: 'No failed links are queued.' });
+      return;
+    }
+
+    const list = contentEl.createEl('ul', { cls: 'smart-link-formatter-modal-list' });
+    for (const entry of entries) {
+      const item = list.createEl('li');
+      item.createEl('code', { text: entry.url });
+      const attempts = `${entry.attempts} retr${entry.attempts === 1 ? 'y' : 'ies'}`;
+      const lastAttempt = entry.lastAttempt ? ` · last tried ${window.moment(entry.lastAttempt).fromNow()}` : '';
+      item.createDiv({
+        cls: 'smart-link-formatter-modal-meta',
+        text: `${entry.path} · ${attempts}${lastAttempt}`,
+      });
+      if (entry.lastError) {
+        item.createDiv({ cls: 'smart-link-formatter-modal-meta', text: entry.lastError });
+      }
+    }
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
+
+/**
+ * Lets the user pick a folder from the vault.
+ */
+export class FolderSuggestModal extends FuzzySuggestModal<TFolder> {
+  constructor(app: App, private onChoose: (folder: TFolder) => void) {
+    super(app);
+    this.setPlaceholder('Choose a folder...');
+  }
+
+  getItems(): TFolder[] {
+    return this.app.vault.getAllLoadedFiles()
+      .filter((file): file is TFolder => file instanceof TFolder);
+  }
+
+  getItemText(folder: TFolder): string {
+    return folder.isRoot() ? '/' : folder.path;
+  }
+
+  onChooseItem(folder: TFolder): void {
+    this.onChoose(folder);
+  }
+}
+
+/**
+ * Shows the outcome of bulk formatting: every link with its proposed or applied
+ * replacement, and every skipped file with the reason.
+ * Dry-run reports offer to apply the changes.
+ */
+export class BulkReportModal extends Modal {
+  constructor(app: App, private report: BulkReport, private onApply?: () => void) {
+    super(app);
+  }
+
+  onOpen(): void {
+    const { contentEl, report } = this;
+    this.titleEl.setText(report.dryRun ? 'Link formatting preview' : 'Link formatting results');
+
+    const resolved = report.links.filter(link => link.replacement !== undefined).length;
+    const summary = report.dryRun
+      ? `${resolved} of ${report.links.length} links can be formatted`
+      : `Formatted links in ${report.changedFiles.length} file${report.changedFiles.length === 1 ? '' : 's'}`;
+
+    const header = new Setting(contentEl)
+      .setName(summary)
+      .setDesc(`${report.scannedFiles} file${report.scannedFiles === 1 ? '' : 's'} scanned, ${report.skipped.length} skipped`);
+
+    if (report.dryRun && resolved > 0 && this.onApply) {
+      const onApply = this.onApply;
+      header.addButton(button => button
+        .setButtonText('Apply changes')
+        .setCta()
+        .onClick(() => {
+          this.close();
+          onApply();
+        }));
+    }
+
+    let currentPath = '';
+    let list: HTMLElement | null = null;
+    for (const link of report.links) {
+      if (link.path !== currentPath || !list) {
+        currentPath = link.path;
+        contentEl.createEl('h4', { text: link.path });
+        list = contentEl.createEl('ul', { cls: 'smart-link-formatter-modal-list' });
+      }
+
+      const item = list.createEl('li');
+      item.createEl('code', { text: link.url });
+      item.createDiv({ cls: 'smart-link-formatter-modal-meta', text: `Line ${link.line + 1} · ${link.client}` });
+      if (link.replacement !== undefined) {
+        item.createDiv().createEl('code', { text: link.replacement });
+        if (link.downloadsImage) {
+          item.createDiv({ cls: 'smart-link-formatter-modal-meta', text: 'The image will be downloaded into the vault and embedded from there' });
+        }
+      } else {
+        item.createDiv({ cls: 'smart-link-formatter-modal-error', text: link.error ?? 'Failed to resolve' });
+      }
+    }
+
+    if (report.skipped.length > 0) {
+      contentEl.createEl('h4', { text: 'Skipped files' });
+      const skippedList = contentEl.createEl('ul', { cls: 'smart-link-formatter-modal-list' });
+      for (const { path, reason } of report.skipped) {
+        const item = skippedList.createEl('li');
+        item.createEl('code', { text: path });
+        item.createDiv({ cls: 'smart-link-formatter-modal-meta', text: reason });
+      }
+    }
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
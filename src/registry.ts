@@ -0,0 +1,95 @@
+import { Client, createClients } from "clients";
+
+/**
+ * Matching priorities. Clients are tried from the highest priority down;
+ * clients with equal priority keep the order they were added in.
+ */
+export const ClientPriority = {
+  Registered: 10,     // Default for clients registered by other plugins, ahead of the built-in ones
+  BuiltIn: 0,
+  Custom: -10,        // Clients defined in the settings
+  Discovery: -100,    // oEmbed, which matches every link
+  Fallback: -1000,    // The default client
+} as const;
+
+interface ClientEntry {
+  client: Client;
+  priority: number;
+  registered: boolean;
+}
+
+/**
+ * The ordered set of clients used to match links: the built-in clients, the
+ * custom clients from the settings and clients registered by other plugins.
+ */
+export class ClientRegistry {
+  private entries: ClientEntry[];
+  private customClients: Client[] = [];
+
+  /**
+   * @param builtInClients - The built-in clients, from `createClients`.
+   */
+  constructor(builtInClients: Client[] = createClients()) {
+    this.entries = builtInClients.map((client): ClientEntry => ({
+      client,
+      priority: client.name === "oembed" ? ClientPriority.Discovery
+        : client.name === "default" ? ClientPriority.Fallback
+        : ClientPriority.BuiltIn,
+      registered: false,
+    }));
+  }
+
+  /**
+   * Adds a client from another plugin.
+   * @param client - The client to add. Its name must be unique.
+   * @param priority - Where it is tried relative to the other clients.
+   * @returns A function that removes the client again.
+   * @throws If a client with the same name already exists.
+   */
+  register(client: Client, priority: number = ClientPriority.Registered): () => void {
+    if (this.list().some(existing => existing.name === client.name)) {
+      throw new Error(`A client named "${client.name}" is already registered`);
+    }
+
+    this.entries.push({ client, priority, registered: true });
+    return () => {
+      const index = this.entries.findIndex(entry => entry.client === client);
+      if (index !== -1) this.entries.splice(index, 1);
+    };
+  }
+
+  /**
+   * Removes a client added with `register`. Built-in clients cannot be removed.
+   * @param name - The client's name.
+   * @returns Whether a client was removed.
+   */
+  unregister(name: string): boolean {
+    const index = this.entries.findIndex(entry => entry.registered && entry.client.name === name);
+    if (index === -1) return false;
+    this.entries.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Replaces the clients defined in the settings.
+   */
+  setCustomClients(clients: Client[]): void {
+    this.customClients = clients;
+  }
+
+  /**
+   * Lists every client in matching order.
+   */
+  list(): Client[] {
+    const custom = this.customClients.map((client): ClientEntry => ({
+      client,
+      priority: ClientPriority.Custom,
+      registered: false,
+    }));
+
+    // Array.prototype.sort is stable, so equal priorities keep their insertion order
+    return [...this.entries, ...custom]
+      .sort((a, b) => b.priority - a.priority)
+      .map(entry => entry.client);
+  }
+}
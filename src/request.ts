@@ -0,0 +1,51 @@
+import { requestUrl, RequestUrlParam, RequestUrlResponse } from "obsidian";
+
+/**
+ * Thrown when in-flight link formatting is cancelled, as opposed to failing.
+ */
+export class CancelledError extends Error {
+  constructor(message = "Cancelled") {
+    super(message);
+    this.name = "CancelledError";
+  }
+}
+
+/**
+ * Throws a CancelledError if the signal has been aborted.
+ * @param signal - The signal to check.
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new CancelledError();
+  }
+}
+
+/**
+ * Rejects with a CancelledError as soon as the signal aborts, without waiting for the promise.
+ * @param promise - The work to wait for.
+ * @param signal - The signal that cancels waiting.
+ * @returns The promise's result, if it settles first.
+ */
+export function raceSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new CancelledError());
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new CancelledError());
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).then(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+/**
+ * Cancellable wrapper around Obsidian's requestUrl.
+ * requestUrl cannot abort the underlying HTTP request, so cancelling drops
+ * the response and releases the caller immediately.
+ * @param params - The request, as passed to requestUrl.
+ * @param signal - Cancels the request.
+ * @returns The response.
+ */
+export function request(params: RequestUrlParam | string, signal?: AbortSignal): Promise<RequestUrlResponse> {
+  if (signal?.aborted) return Promise.reject(new CancelledError());
+  return raceSignal(Promise.resolve(requestUrl(params)), signal);
+}
@@ -0,0 +1,110 @@
+import { Plugin } from "obsidian";
+import { readPluginJson, writePluginJson } from "storage";
+
+const QUEUE_FILE = "retry-queue.json";
+
+export const inactivePlaceholderPattern = /<span class="link-loading-inactive" id="(link-placeholder-[^"]+)" url="([^"]*)">Failed to resolve<\/span>/g;
+
+/**
+ * Builds the span left behind for a link that never resolved.
+ * @param id - The id of the original loading placeholder.
+ * @param url - The URL that failed to resolve.
+ */
+export function generateInactivePlaceholder(id: string, url: string): string {
+  return `<span class="link-loading-inactive" id="${id}" url="${url}">Failed to resolve</span>`;
+}
+
+/**
+ * An inactive placeholder found in a note.
+ */
+export interface InactivePlaceholder {
+  id: string;
+  url: string;
+  text: string;
+}
+
+/**
+ * Finds all inactive placeholders in a note's content.
+ * @param content - The note content.
+ */
+export function findInactivePlaceholders(content: string): InactivePlaceholder[] {
+  return Array.from(content.matchAll(inactivePlaceholderPattern), match => ({
+    id: match[1],
+    url: match[2],
+    text: match[0],
+  }));
+}
+
+export interface RetryEntry {
+  id: string;
+  url: string;
+  path: string;
+  attempts: number;
+  lastError?: string;
+  lastAttempt?: number;
+}
+
+/**
+ * Persistent record of links that failed to resolve, keyed by placeholder id.
+ */
+export class RetryQueue {
+  private entries: Record<string, RetryEntry> = {};
+
+  constructor(private plugin: Plugin) {}
+
+  async load(): Promise<void> {
+    this.entries = await readPluginJson<Record<string, RetryEntry>>(this.plugin, QUEUE_FILE, {});
+  }
+
+  async save(): Promise<void> {
+    await writePluginJson(this.plugin, QUEUE_FILE, this.entries);
+  }
+
+  get size(): number {
+    return Object.keys(this.entries).length;
+  }
+
+  list(): RetryEntry[] {
+    return Object.values(this.entries).sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  get(id: string): RetryEntry | undefined {
+    return this.entries[id];
+  }
+
+  /**
+   * Adds a failed link to the queue, keeping its history if already queued.
+   * @param id - The placeholder id.
+   * @param url - The URL that failed.
+   * @param path - The note containing the placeholder.
+   */
+  enqueue(id: string, url: string, path: string): void {
+    const existing = this.entries[id];
+    this.entries[id] = existing ? { ...existing, url, path } : { id, url, path, attempts: 0 };
+  }
+
+  recordFailure(id: string, error: unknown): void {
+    const entry = this.entries[id];
+    if (!entry) return;
+    entry.attempts++;
+    entry.lastError = error instanceof Error ? error.message : String(error);
+    entry.lastAttempt = Date.now();
+  }
+
+  remove(id: string): void {
+    delete this.entries[id];
+  }
+
+  /**
+   * Drops entries whose placeholders no longer exist.
+   * @param paths - The notes that were scanned, or null if the whole vault was.
+   * @param foundIds - Placeholder ids still present in those notes.
+   */
+  reconcile(paths: Set<string> | null, foundIds: Set<string>): void {
+    for (const entry of Object.values(this.entries)) {
+      if ((!paths || paths.has(entry.path)) && !foundIds.has(entry.id)) {
+        delete this.entries[entry.id];
+      }
+    }
+  }
+}
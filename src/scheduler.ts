@@ -0,0 +1,131 @@
+import { CancelledError } from "request";
+
+export interface SchedulerLimits {
+  maxConcurrent: number;     // Requests in flight across all hosts
+  maxPerHost: number;        // Requests in flight to a single host
+  hostSpacingMs: number;     // Minimum delay between request starts to a single host
+}
+
+interface QueuedTask {
+  host: string;
+  start: () => void;
+}
+
+/**
+ * Extracts the host used for per-host limits, ignoring a leading "www.".
+ * @param url - The URL being requested.
+ * @returns The host, or the URL itself if it cannot be parsed.
+ */
+export function getRequestHost(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Queues outgoing requests so bulk formatting does not flood a site.
+ * Tasks start in the order they were scheduled, as soon as the global cap,
+ * the per-host cap and the per-host spacing all allow it.
+ */
+export class RequestScheduler {
+  private queue: QueuedTask[] = [];
+  private running = 0;
+  private runningPerHost: Map<string, number> = new Map();
+  private lastStartPerHost: Map<string, number> = new Map();
+  private timer: number | null = null;
+  private timerDue = Infinity;
+
+  constructor(private getLimits: () => SchedulerLimits) {}
+
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Runs a task once the limits for its host allow it.
+   * @param url - The URL the task requests, used to determine its host.
+   * @param task - The work to run.
+   * @param signal - Removes the task from the queue if aborted before it starts.
+   * @returns The task's result.
+   */
+  schedule<T>(url: string, task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const host = getRequestHost(url);
+
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new CancelledError());
+        return;
+      }
+
+      const queued: QueuedTask = {
+        host,
+        start: () => {
+          signal?.removeEventListener("abort", onAbort);
+          Promise.resolve()
+            .then(task)
+            .then(resolve, reject)
+            .finally(() => this.finish(host));
+        },
+      };
+
+      const onAbort = () => {
+        const index = this.queue.indexOf(queued);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+          reject(new CancelledError());
+        }
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      this.queue.push(queued);
+      this.pump();
+    });
+  }
+
+  private finish(host: string) {
+    this.running--;
+    const count = (this.runningPerHost.get(host) ?? 1) - 1;
+    if (count > 0) {
+      this.runningPerHost.set(host, count);
+    } else {
+      this.runningPerHost.delete(host);
+    }
+    this.pump();
+  }
+
+  private pump() {
+    const { maxConcurrent, maxPerHost, hostSpacingMs } = this.getLimits();
+    const now = Date.now();
+    let nextWake = Infinity;
+
+    for (let i = 0; i < this.queue.length && this.running < maxConcurrent; i++) {
+      const { host, start } = this.queue[i];
+      if ((this.runningPerHost.get(host) ?? 0) >= maxPerHost) continue;
+
+      const wait = (this.lastStartPerHost.get(host) ?? -Infinity) + hostSpacingMs - now;
+      if (wait > 0) {
+        nextWake = Math.min(nextWake, wait);
+        continue;
+      }
+
+      this.queue.splice(i--, 1);
+      this.running++;
+      this.runningPerHost.set(host, (this.runningPerHost.get(host) ?? 0) + 1);
+      this.lastStartPerHost.set(host, now);
+      start();
+    }
+
+    // A newly queued host may be ready before the pending timer fires
+    if (nextWake !== Infinity && now + nextWake < this.timerDue) {
+      if (this.timer !== null) window.clearTimeout(this.timer);
+      this.timerDue = now + nextWake;
+      this.timer = window.setTimeout(() => {
+        this.timer = null;
+        this.timerDue = Infinity;
+        this.pump();
+      }, nextWake);
+    }
+  }
+}
@@ -1,6 +1,7 @@
-import { App, PluginSettingTab, Setting } from "obsidian";
+import { App, Notice, PluginSettingTab, Setting } from "obsidian";
 import SmartLinkFormatterPlugin from "main";
-import { CLIENTS, ClientName } from "clients";
+import { CustomClientConfig, createCustomClientConfig, formatVariableLines, parseVariableLines, compilePattern } from "custom-clients";
+import { ForgeInstance } from "clients";
 import { FailureMode } from "types/failure-mode";
 
 export interface TitleReplacement {
@@ -16,7 +17,16 @@ export interface LinkFormatterSettings {
     timeoutSeconds: number;
     blacklistedDomains: string;
     titleReplacements: TitleReplacement[];
-    clientFormats: Partial<Record<ClientName, string>>; // Maps ClientName -> format template
+    clientFormats: Record<string, string>; // Maps client name -> format template
+    maxConcurrentRequests: number;
+    maxRequestsPerHost: number;
+    hostRequestSpacingMs: number;
+    cacheEnabled: boolean;
+    cacheTtlHours: Record<string, number>; // Maps client name -> cache lifetime override
+    customClients: CustomClientConfig[];
+    forgeInstances: ForgeInstance[];
+    mastodonInstances: string;
+    downloadImages: boolean;
 }
 
 export const DEFAULT_SETTINGS: LinkFormatterSettings = {
@@ -26,11 +36,32 @@ export const DEFAULT_SETTINGS: LinkFormatterSettings = {
     timeoutSeconds: 10,
     blacklistedDomains: '',
     titleReplacements: [],
-    clientFormats: {}
+    clientFormats: {},
+    maxConcurrentRequests: 4,
+    maxRequestsPerHost: 2,
+    hostRequestSpacingMs: 500,
+    cacheEnabled: true,
+    cacheTtlHours: {},
+    customClients: [],
+    forgeInstances: [],
+    mastodonInstances: '',
+    downloadImages: false
 };
+
+/**
+ * Fills in the settings missing from saved data with their defaults.
+ * The settings tab edits lists such as the forge instances in place, so the
+ * defaults are copied rather than shared.
+ * @param data - The saved settings, as returned by `loadData`.
+ */
+export function withDefaultSettings(data: Partial<LinkFormatterSettings> | null): LinkFormatterSettings {
+    return Object.assign({}, structuredClone(DEFAULT_SETTINGS), data);
+}
 export class LinkFormatterSettingTab extends PluginSettingTab {
     plugin: SmartLinkFormatterPlugin;
     private activeSection: 'general' | 'clients' | 'overrides' = 'general';
+    // Custom clients edited since their cached links were last dropped
+    private staleCustomClients: Set<string> = new Set();
 
     constructor(app: App, plugin: SmartLinkFormatterPlugin) {
         super(app, plugin);
@@ -84,6 +115,10 @@ export class LinkFormatterSettingTab extends PluginSettingTab {
         }
     }
 
+    hide(): void {
+        void this.dropStaleCustomClientCaches();
+    }
+
     private displayGeneralSettings(containerEl: HTMLElement): void {
         new Setting(containerEl)
             .setName('Auto-linking')
@@ -131,6 +166,34 @@ export class LinkFormatterSettingTab extends PluginSettingTab {
                     });
             });
 
+        new Setting(containerEl)
+            .setName('Rate limiting')
+            .setDesc('Limits how many links are fetched at once when formatting many links, so sites do not throttle or block requests.')
+            .setHeading();
+
+        this.addNumberSetting(containerEl, 'Concurrent requests', 'Maximum number of links fetched at the same time. (1-20)',
+            'maxConcurrentRequests', 1, 20);
+        this.addNumberSetting(containerEl, 'Requests per site', 'Maximum number of links fetched from the same site at the same time. (1-10)',
+            'maxRequestsPerHost', 1, 10);
+        this.addNumberSetting(containerEl, 'Delay between requests', 'Minimum time (in milliseconds) between two requests to the same site. (0-10000ms)',
+            'hostRequestSpacingMs', 0, 10000);
+
+        new Setting(containerEl)
+            .setName('Cache link metadata')
+            .setDesc('Remember fetched metadata so links pasted again format instantly, even offline. Lifetimes can be set per client.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.cacheEnabled)
+                .onChange(async (value) => {
+                    this.plugin.settings.cacheEnabled = value;
+                    await this.plugin.saveSettings();
+                }))
+            .addButton(button => button
+                .setButtonText('Clear cache')
+                .onClick(async () => {
+                    const removed = await this.plugin.cache.clear();
+                    new Notice(`Cleared ${removed} cached link${removed === 1 ? '' : 's'}`);
+                }));
+
         new Setting(containerEl)
             .setName('Replacements')
             .setDesc('Apply regex find/replace transformations after formatting links. Patterns are applied in order.')
@@ -217,8 +280,41 @@ export class LinkFormatterSettingTab extends PluginSettingTab {
                 }));
     }
 
+    private addNumberSetting(
+        containerEl: HTMLElement,
+        name: string,
+        desc: string,
+        key: 'maxConcurrentRequests' | 'maxRequestsPerHost' | 'hostRequestSpacingMs',
+        min: number,
+        max: number
+    ): void {
+        new Setting(containerEl)
+            .setName(name)
+            .setDesc(desc)
+            .addText(text => {
+                text.inputEl.type = 'number';
+                text.inputEl.min = String(min);
+                text.inputEl.max = String(max);
+                text.inputEl.step = '1';
+
+                text
+                    .setPlaceholder(String(DEFAULT_SETTINGS[key]))
+                    .setValue(String(this.plugin.settings[key]))
+                    .onChange(async (value) => {
+                        const numValue = parseInt(value);
+                        if (!isNaN(numValue) && numValue >= min && numValue <= max) {
+                            this.plugin.settings[key] = numValue;
+                            await this.plugin.saveSettings();
+                            text.inputEl.removeClass('smart-link-formatter-invalid');
+                        } else {
+                            text.inputEl.addClass('smart-link-formatter-invalid');
+                        }
+                    });
+            });
+    }
+
     private displayClientSettings(containerEl: HTMLElement): void {
-        for (const client of CLIENTS) {
+        for (const client of this.plugin.getClients()) {
             const setting = new Setting(containerEl)
                 .setName(`${client.displayName} link format`)
                 .setClass('smart-link-formatter-tall-textarea-setting');
@@ -242,6 +338,255 @@ export class LinkFormatterSettingTab extends PluginSettingTab {
                     this.plugin.settings.clientFormats[client.name] = value;
                     await this.plugin.saveSettings();
                 }));
+
+            new Setting(containerEl)
+                .setName(`${client.displayName} cache lifetime`)
+                .setDesc('Hours before cached metadata is fetched again. 0 disables caching for this client.')
+                .addText(text => {
+                    text.inputEl.type = 'number';
+                    text.inputEl.min = '0';
+                    text
+                        .setPlaceholder(String(client.defaultCacheTtlHours))
+                        .setValue(String(this.plugin.settings.cacheTtlHours[client.name] ?? client.defaultCacheTtlHours))
+                        .onChange(async (value) => {
+                            const numValue = parseFloat(value);
+                            if (value.trim() === '') {
+                                delete this.plugin.settings.cacheTtlHours[client.name];
+                            } else if (!isNaN(numValue) && numValue >= 0) {
+                                this.plugin.settings.cacheTtlHours[client.name] = numValue;
+                            } else {
+                                text.inputEl.addClass('smart-link-formatter-invalid');
+                                return;
+                            }
+                            text.inputEl.removeClass('smart-link-formatter-invalid');
+                            await this.plugin.saveSettings();
+                        });
+                });
+        }
+
+        new Setting(containerEl)
+            .setName('Download images')
+            .setDesc('Save pasted image links into the attachment folder and embed the local file, so notes keep working when the remote image disappears.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.downloadImages)
+                .onChange(async (value) => {
+                    this.plugin.settings.downloadImages = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        this.displayForgeSettings(containerEl);
+
+        new Setting(containerEl)
+            .setName('Mastodon instances')
+            .setDesc('Comma-separated list of Mastodon-compatible instances (e.g. Pleroma, Akkoma, GoToSocial). Posts on any Mastodon server are recognized by their URL; listing an instance also recognizes its other post URL shapes.')
+            .addTextArea(text => text
+                .setPlaceholder('mastodon.social, fosstodon.org')
+                .setValue(this.plugin.settings.mastodonInstances)
+                .then(textArea => {
+                    textArea.inputEl.rows = 2;
+                    textArea.inputEl.addClass('smart-link-formatter-setting-textarea');
+                })
+                .onChange(async (value) => {
+                    this.plugin.settings.mastodonInstances = value;
+                    await this.plugin.saveSettings();
+                }));
+        this.displayCustomClientSettings(containerEl);
+    }
+
+    private displayForgeSettings(containerEl: HTMLElement): void {
+        new Setting(containerEl)
+            .setName('Self-hosted forges')
+            .setDesc('GitLab and Gitea/Forgejo instances the forge clients should recognize, in addition to gitlab.com and codeberg.org. An access token is only needed for private projects.')
+            .setHeading();
+
+        const instances = this.plugin.settings.forgeInstances;
+        instances.forEach((instance, index) => {
+            new Setting(containerEl)
+                .setClass('smart-link-formatter-replacement-setting')
+                .addDropdown(dropdown => dropdown
+                    .addOption('gitlab', 'GitLab')
+                    .addOption('gitea', 'Gitea/Forgejo')
+                    .setValue(instance.type)
+                    .onChange(async (value: 'gitlab' | 'gitea') => {
+                        instance.type = value;
+                        await this.plugin.saveSettings();
+                    }))
+                .addText(text => text
+                    .setPlaceholder('https://git.example.com')
+                    .setValue(instance.baseUrl)
+                    .onChange(async (value) => {
+                        instance.baseUrl = value;
+                        await this.plugin.saveSettings();
+                    }))
+                .addText(text => {
+                    text.inputEl.type = 'password';
+                    text
+                        .setPlaceholder('Access token (optional)')
+                        .setValue(instance.token ?? '')
+                        .onChange(async (value) => {
+                            instance.token = value || undefined;
+                            await this.plugin.saveSettings();
+                        });
+                })
+                .addButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Delete instance')
+                    .onClick(async () => {
+                        instances.splice(index, 1);
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+        });
+
+        new Setting(containerEl)
+            .addButton(button => button
+                .setButtonText('Add self-hosted instance')
+                .onClick(async () => {
+                    instances.push({ type: 'gitlab', baseUrl: '' });
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+    }
+
+    private displayCustomClientSettings(containerEl: HTMLElement): void {
+        new Setting(containerEl)
+            .setName('Custom clients')
+            .setDesc('Define clients for other sites. They are tried after the built-in clients and before oEmbed and the default client.')
+            .setHeading();
+
+        const customClients = this.plugin.settings.customClients;
+        customClients.forEach((config, index) => {
+            new Setting(containerEl)
+                .setName(config.displayName || 'Custom client')
+                .setHeading()
+                .addToggle(toggle => toggle
+                    .setValue(config.enabled)
+                    .setTooltip('Enable/disable this client')
+                    .onChange(async (value) => {
+                        config.enabled = value;
+                        await this.plugin.saveSettings();
+                    }))
+                .addButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Delete client')
+                    .onClick(async () => {
+                        customClients.splice(index, 1);
+                        delete this.plugin.settings.clientFormats[`custom-${config.id}`];
+                        delete this.plugin.settings.cacheTtlHours[`custom-${config.id}`];
+                        await this.plugin.cache.clearClient(`custom-${config.id}`);
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+
+            new Setting(containerEl)
+                .setName('Name')
+                .addText(text => text
+                    .setValue(config.displayName)
+                    .onChange(async (value) => {
+                        config.displayName = value;
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(containerEl)
+                .setName('URL pattern')
+                .setDesc('Regex matched against the link, with "http://" and "www." normalized to "https://".')
+                .addText(text => {
+                    text
+                        .setPlaceholder('^https://wiki\\.example\\.com/')
+                        .setValue(config.pattern)
+                        .onChange(async (value) => {
+                            config.pattern = value;
+                            text.inputEl.toggleClass('smart-link-formatter-invalid', !!value.trim() && !compilePattern(value));
+                            await this.saveCustomClientFetch(config);
+                        });
+                    text.inputEl.toggleClass('smart-link-formatter-invalid', !!config.pattern.trim() && !compilePattern(config.pattern));
+                    text.inputEl.addEventListener('blur', () => void this.dropStaleCustomClientCaches());
+                });
+
+            new Setting(containerEl)
+                .setName('Fetch strategy')
+                .setDesc('Read the page\'s HTML with CSS selectors, or call a JSON endpoint and read fields by path.')
+                .addDropdown(dropdown => dropdown
+                    .addOption('html', 'HTML page')
+                    .addOption('json', 'JSON endpoint')
+                    .setValue(config.strategy)
+                    .onChange(async (value: 'html' | 'json') => {
+                        config.strategy = value;
+                        await this.saveCustomClientFetch(config);
+                        await this.dropStaleCustomClientCaches();
+                        this.display();
+                    }));
+
+            if (config.strategy === 'json') {
+                new Setting(containerEl)
+                    .setName('Endpoint')
+                    .setDesc('{url} is replaced with the link, {1}, {2}... with the pattern\'s groups and {name} with its named groups.')
+                    .addText(text => {
+                        text
+                            .setPlaceholder('https://api.example.com/pages/{1}')
+                            .setValue(config.endpoint)
+                            .onChange(async (value) => {
+                                config.endpoint = value;
+                                await this.saveCustomClientFetch(config);
+                            });
+                        text.inputEl.addEventListener('blur', () => void this.dropStaleCustomClientCaches());
+                    });
+            }
+
+            new Setting(containerEl)
+                .setName('Variables')
+                .setDesc(config.strategy === 'json'
+                    ? 'One per line as "name = field.path", e.g. "title = data.title".'
+                    : 'One per line as "name = CSS selector", optionally followed by "@attribute", e.g. "image = meta[property=\'og:image\'] @content".')
+                .setClass('smart-link-formatter-tall-textarea-setting')
+                .addTextArea(text => text
+                    .setValue(formatVariableLines(config.variables))
+                    .then(textArea => {
+                        textArea.inputEl.rows = 4;
+                        textArea.inputEl.addClass('smart-link-formatter-setting-textarea');
+                        textArea.inputEl.addEventListener('blur', () => void this.dropStaleCustomClientCaches());
+                    })
+                    .onChange(async (value) => {
+                        config.variables = parseVariableLines(value);
+                        await this.saveCustomClientFetch(config);
+                    }));
+
+            new Setting(containerEl)
+                .setName('Default format')
+                .setDesc('Used unless a format is set for this client above.')
+                .addText(text => text
+                    .setPlaceholder('[{title}]')
+                    .setValue(config.format)
+                    .onChange(async (value) => {
+                        config.format = value;
+                        await this.plugin.saveSettings();
+                    }));
+        });
+
+        new Setting(containerEl)
+            .addButton(button => button
+                .setButtonText('Add custom client')
+                .setCta()
+                .onClick(async () => {
+                    customClients.push(createCustomClientConfig());
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+    }
+
+    // Saves on every keystroke, but only marks the client's cached links as stale;
+    // they are dropped once, when the field loses focus or the settings close
+    private async saveCustomClientFetch(config: CustomClientConfig): Promise<void> {
+        this.staleCustomClients.add(`custom-${config.id}`);
+        await this.plugin.saveSettings();
+    }
+
+    // Metadata cached under the old definition would otherwise be served until it expires
+    private async dropStaleCustomClientCaches(): Promise<void> {
+        const stale = Array.from(this.staleCustomClients);
+        this.staleCustomClients.clear();
+        for (const client of stale) {
+            await this.plugin.cache.clearClient(client);
         }
     }
 
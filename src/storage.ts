@@ -0,0 +1,45 @@
+import { Plugin } from "obsidian";
+
+/**
+ * Resolves a file name inside the plugin's own folder.
+ * @param plugin - The plugin owning the folder.
+ * @param fileName - The file name, e.g. `cache.json`.
+ * @returns The vault-relative path to the file.
+ */
+function pluginFilePath(plugin: Plugin, fileName: string): string {
+  const dir = plugin.manifest.dir ?? `${plugin.app.vault.configDir}/plugins/${plugin.manifest.id}`;
+  return `${dir}/${fileName}`;
+}
+
+/**
+ * Reads a JSON file stored next to the plugin's data.json.
+ * @param plugin - The plugin owning the file.
+ * @param fileName - The file name inside the plugin folder.
+ * @param fallback - Value returned when the file is missing or unreadable.
+ * @returns The parsed contents, or the fallback.
+ */
+export async function readPluginJson<T>(plugin: Plugin, fileName: string, fallback: T): Promise<T> {
+  const path = pluginFilePath(plugin, fileName);
+  try {
+    if (!(await plugin.app.vault.adapter.exists(path))) return fallback;
+    return JSON.parse(await plugin.app.vault.adapter.read(path)) as T;
+  } catch (error) {
+    console.error(`Smart Link Formatter: Failed to read ${path}:`, error);
+    return fallback;
+  }
+}
+
+/**
+ * Writes a JSON file next to the plugin's data.json.
+ * @param plugin - The plugin owning the file.
+ * @param fileName - The file name inside the plugin folder.
+ * @param data - The value to serialize.
+ */
+export async function writePluginJson(plugin: Plugin, fileName: string, data: unknown): Promise<void> {
+  const path = pluginFilePath(plugin, fileName);
+  try {
+    await plugin.app.vault.adapter.write(path, JSON.stringify(data));
+  } catch (error) {
+    console.error(`Smart Link Formatter: Failed to write ${path}:`, error);
+  }
+}
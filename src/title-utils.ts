@@ -1,5 +1,6 @@
-import { requestUrl, Platform } from 'obsidian';
+import { Platform } from 'obsidian';
 import { escapeMarkdownChars } from './utils';
+import { request, CancelledError, throwIfCancelled } from './request';
 
 /**
  * Checks if a string is undefined, null, or empty.
@@ -10,6 +11,87 @@ function blank(text: string | null | undefined): boolean {
   return text === undefined || text === null || text === '';
 }
 
+/**
+ * Meta tags exposed as template variables, named after their property.
+ */
+export const PAGE_META_TAGS = [
+  'description',
+  'og:description',
+  'og:site_name',
+  'og:image',
+  'og:type',
+  'article:author',
+  'article:published_time',
+  'article:modified_time',
+  'article:section',
+  'twitter:title',
+  'twitter:description',
+  'twitter:image',
+  'twitter:site',
+  'twitter:creator',
+  'twitter:card',
+];
+
+// Values used as link targets, which must not be Markdown-escaped
+const URL_META_TAGS = ['og:image', 'twitter:image'];
+
+/**
+ * A page's title along with its known meta tags.
+ */
+interface PageInfo {
+  title: string | null;
+  meta: Record<string, string>;
+  oembedEndpoint?: string;   // The JSON oEmbed endpoint the page advertises, if any
+}
+
+/**
+ * A page's metadata, as returned by `getPageMetadata`.
+ */
+export interface PageMetadata {
+  metadata: Record<string, string | undefined>;
+  oembedEndpoint?: string;
+}
+
+const OEMBED_LINK_SELECTOR = 'link[rel~="alternate"][type="application/json+oembed"]';
+
+/**
+ * Keeps the known meta tags out of a list of name/content pairs and escapes their values.
+ * The first occurrence of a tag wins.
+ * @param pairs - Meta tag names (the `property` or `name` attribute) and their content.
+ * @returns The meta tags keyed by name.
+ */
+export function collectMetaTags(pairs: Array<[string | null, string | null]>): Record<string, string> {
+  const meta: Record<string, string> = {};
+  for (const [rawName, rawContent] of pairs) {
+    const name = rawName?.trim().toLowerCase();
+    const content = rawContent?.trim();
+    if (!name || blank(content) || !PAGE_META_TAGS.includes(name) || name in meta) continue;
+    meta[name] = URL_META_TAGS.includes(name) ? content! : escapeMarkdownChars(content!);
+  }
+  return meta;
+}
+
+/**
+ * Extracts the known meta tags from a parsed HTML document.
+ * @param doc - The parsed document.
+ * @returns The meta tags keyed by name.
+ */
+export function extractMetaTags(doc: Document): Record<string, string> {
+  return collectMetaTags(
+    Array.from(doc.querySelectorAll('meta[property], meta[name]')).map(el => [
+      el.getAttribute('property') || el.getAttribute('name'),
+      el.getAttribute('content'),
+    ])
+  );
+}
+
+// Runs inside the Electron window to read meta tags after the page's scripts have run
+const META_TAGS_SCRIPT = `Array.from(document.querySelectorAll('meta[property], meta[name]'))
+  .map(m => [m.getAttribute('property') || m.getAttribute('name'), m.getAttribute('content')])`;
+
+// Runs inside the Electron window to read the advertised oEmbed endpoint, resolved against the page
+const OEMBED_LINK_SCRIPT = `document.querySelector('${OEMBED_LINK_SELECTOR}')?.href ?? null`;
+
 /**
  * Generates a unique placeholder token.
  * @returns The unique placeholder token.
@@ -37,9 +119,9 @@ function getUrlFinalSegment(url: string): string {
   }
 }
 
-// async wrapper to load a url in Electron BrowserWindow and settle on load finish or fail
+// async wrapper to load a url in Electron BrowserWindow and settle on load finish, fail or cancellation
 // eslint-disable-next-line @typescript-eslint/no-explicit-any -- Electron BrowserWindow has no available type
-async function loadElectronWindow(window: any, url: string): Promise<void> {
+async function loadElectronWindow(window: any, url: string, signal?: AbortSignal): Promise<void> {
   return new Promise<void>((resolve, reject) => {
     const timer = window.setTimeout(() => {
       console.warn(`Smart Link Formatter: Timeout loading ${url} in Electron window.`);
@@ -53,8 +135,17 @@ async function loadElectronWindow(window: any, url: string): Promise<void> {
       reject(new Error(`Timeout loading URL: ${url}`));
     }, 30000); // 30-second timeout
 
+    const onAbort = () => {
+      window.clearTimeout(timer);
+      window.webContents.removeListener("did-finish-load", didFinishLoad);
+      window.webContents.removeListener("did-fail-load", didFailLoad);
+      reject(new CancelledError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
     const didFinishLoad = () => {
       window.clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
       window.webContents.removeListener("did-finish-load", didFinishLoad);
       window.webContents.removeListener("did-fail-load", didFailLoad);
       resolve();
@@ -67,6 +158,7 @@ async function loadElectronWindow(window: any, url: string): Promise<void> {
         console.debug(`Smart Link Formatter: Non-main frame load failed for ${validatedURL}: ${errorDescription}. Continuing for main frame.`);
         return; // Don't reject the promise for sub-frame failures
       }
+      signal?.removeEventListener("abort", onAbort);
       window.webContents.removeListener("did-finish-load", didFinishLoad);
       window.webContents.removeListener("did-fail-load", didFailLoad);
       reject(new Error(`Failed to load URL: ${validatedURL} - ${errorDescription} (Code: ${errorCode})`));
@@ -78,7 +170,7 @@ async function loadElectronWindow(window: any, url: string): Promise<void> {
   });
 }
 
-async function electronGetPageTitle(url: string): Promise<string | null> {
+async function electronGetPage(url: string, signal?: AbortSignal): Promise<PageInfo | null> {
   if (Platform.isMobile) {
     console.warn("Smart Link Formatter: Electron not available on mobile platform.");
     return null;
@@ -95,7 +187,7 @@ async function electronGetPageTitle(url: string): Promise<string | null> {
   }
 
   if (!electronPkg || !electronPkg.remote) {
-    console.warn("Smart Link Formatter: Electron remote module not available for electronGetPageTitle.");
+    console.warn("Smart Link Formatter: Electron remote module not available for electronGetPage.");
     return null;
   }
 
@@ -118,13 +210,29 @@ async function electronGetPageTitle(url: string): Promise<string | null> {
     });
     window.webContents.setAudioMuted(true);
 
-    await loadElectronWindow(window, url);
+    await loadElectronWindow(window, url, signal);
 
     const title = window.webContents.getTitle();
-    return !blank(title) ? title : null;
+
+    let meta: Record<string, string> = {};
+    try {
+      meta = collectMetaTags(await window.webContents.executeJavaScript(META_TAGS_SCRIPT));
+    } catch (metaError) {
+      console.warn(`Smart Link Formatter: Could not read meta tags for ${url}:`, metaError);
+    }
+
+    let oembedEndpoint: string | undefined;
+    try {
+      oembedEndpoint = (await window.webContents.executeJavaScript(OEMBED_LINK_SCRIPT)) || undefined;
+    } catch (linkError) {
+      console.warn(`Smart Link Formatter: Could not read the oEmbed link for ${url}:`, linkError);
+    }
+
+    return { title: !blank(title) ? title : null, meta, oembedEndpoint };
 
   } catch (ex) {
-    console.error(`Smart Link Formatter: Error in electronGetPageTitle for ${url}:`, ex);
+    if (ex instanceof CancelledError) throw ex;
+    console.error(`Smart Link Formatter: Error in electronGetPage for ${url}:`, ex);
     return null;
   } finally {
     if (window && !window.isDestroyed()) {
@@ -134,56 +242,60 @@ async function electronGetPageTitle(url: string): Promise<string | null> {
 }
 
 /**
- * Fetches page title using Obsidian's requestUrl.
+ * Fetches page title and meta tags using Obsidian's requestUrl.
  */
-async function fetchTitleWithRequestUrl(urlToFetch: string): Promise<string> {
+async function fetchPageWithRequestUrl(urlToFetch: string, signal?: AbortSignal): Promise<PageInfo> {
   try {
-    const response = await requestUrl({ url: urlToFetch, method: 'GET' });
+    const response = await request({ url: urlToFetch, method: 'GET' }, signal);
     const contentType = response.headers['content-type']?.toLowerCase();
 
     if (contentType && !contentType.includes('text/html')) {
-      return getUrlFinalSegment(urlToFetch) || urlToFetch;
+      return { title: getUrlFinalSegment(urlToFetch) || urlToFetch, meta: {} };
     }
 
     const text = response.text;
     const doc = new DOMParser().parseFromString(text, "text/html");
+    const meta = extractMetaTags(doc);
+    const oembedHref = doc.querySelector(OEMBED_LINK_SELECTOR)?.getAttribute('href');
+    const oembedEndpoint = oembedHref ? new URL(oembedHref, urlToFetch).toString() : undefined;
     const titleElement = doc.querySelector("title");
     const actualTitle = titleElement?.innerText?.trim();
 
     if (!blank(actualTitle)) {
-      return actualTitle!;
+      return { title: actualTitle!, meta, oembedEndpoint };
     }
     
     const noTitleAttr = titleElement?.getAttribute('no-title')?.trim();
     if (!blank(noTitleAttr)) {
-      return noTitleAttr!;
+      return { title: noTitleAttr!, meta, oembedEndpoint };
     }
     
     const h1Element = doc.querySelector('h1');
     const h1Text = h1Element?.innerText?.trim();
     if (!blank(h1Text)) {
-        return h1Text!;
+        return { title: h1Text!, meta, oembedEndpoint };
     }
 
     const metaTitleElement = doc.querySelector('meta[property="og:title"], meta[name="twitter:title"], meta[itemprop="name"]');
     const metaTitleContent = metaTitleElement?.getAttribute('content')?.trim();
     if (!blank(metaTitleContent)) {
-        return metaTitleContent!;
+        return { title: metaTitleContent!, meta, oembedEndpoint };
     }
 
-    return urlToFetch;
+    return { title: urlToFetch, meta, oembedEndpoint };
   } catch (error) {
+    if (error instanceof CancelledError) throw error;
     console.error(`Smart Link Formatter: Failed to fetch page title via requestUrl for ${urlToFetch}:`, error);
-    return urlToFetch;
+    return { title: urlToFetch, meta: {} };
   }
 }
 
 /**
  * Tries to get Content-Type using a HEAD request.
  */
-async function tryGetContentTypeAndSegment(url: string): Promise<string | null> {
+async function tryGetContentTypeAndSegment(url: string, signal?: AbortSignal): Promise<string | null> {
   try {
-    const response = await requestUrl({ url: url, method: "HEAD" });
+    const response = await request({ url: url, method: "HEAD" }, signal);
     const contentType = response.headers['content-type']?.toLowerCase();
     
     if (contentType && !contentType.includes("text/html")) {
@@ -191,45 +303,58 @@ async function tryGetContentTypeAndSegment(url: string): Promise<string | null>
     }
     return null;
   } catch (err) {
+    if (err instanceof CancelledError) throw err;
     console.warn(`Smart Link Formatter: HEAD request for ${url} failed or inconclusive. Proceeding with GET. Error:`, err);
     return null;
   }
 }
 
 /**
- * Main function to get page title using various strategies.
+ * Main function to get page title and meta tags using various strategies.
  * @param url - The URL to fetch the title from.
- * @returns The processed and Markdown-escaped page title.
+ * @param signal - Cancels the lookup, closing any Electron window it opened.
+ * @returns The Markdown-escaped page title as `title`, plus one entry per meta tag found,
+ * and the oEmbed endpoint the page advertises.
  */
-async function getPageTitleOrchestrator(url: string): Promise<string> {
+async function getPageMetadataOrchestrator(url: string, signal?: AbortSignal): Promise<PageMetadata> {
   let processedUrl = url;
   if (!(processedUrl.startsWith('http') || processedUrl.startsWith('https'))) {
     processedUrl = 'https://' + processedUrl;
   }
 
-  let title: string | null = null;
+  let page: PageInfo | null = null;
 
-  const nonHtmlTitle = await tryGetContentTypeAndSegment(processedUrl);
+  const nonHtmlTitle = await tryGetContentTypeAndSegment(processedUrl, signal);
   if (nonHtmlTitle) {
-    return escapeMarkdownChars(nonHtmlTitle);
+    return { metadata: { title: escapeMarkdownChars(nonHtmlTitle) } };
   }
 
   if (Platform.isMobile) {
-    title = await fetchTitleWithRequestUrl(processedUrl);
+    page = await fetchPageWithRequestUrl(processedUrl, signal);
   } else {
     try {
-      title = await electronGetPageTitle(processedUrl);
+      page = await electronGetPage(processedUrl, signal);
     } catch (electronError) {
-      console.error(`Smart Link Formatter: electronGetPageTitle failed for ${processedUrl}:`, electronError);
-      title = null;
+      if (electronError instanceof CancelledError) throw electronError;
+      console.error(`Smart Link Formatter: electronGetPage failed for ${processedUrl}:`, electronError);
+      page = null;
     }
 
-    if (blank(title)) {
-      title = await fetchTitleWithRequestUrl(processedUrl);
+    if (blank(page?.title)) {
+      throwIfCancelled(signal);
+      page = await fetchPageWithRequestUrl(processedUrl, signal);
     }
   }
-  
-  return escapeMarkdownChars(title || processedUrl);
+
+  const meta = page?.meta ?? {};
+  if (blank(meta['description']) && !blank(meta['og:description'])) {
+    meta['description'] = meta['og:description'];
+  }
+
+  return {
+    metadata: { ...meta, title: escapeMarkdownChars(page?.title || processedUrl) },
+    oembedEndpoint: page?.oembedEndpoint,
+  };
 }
 
-export { getPageTitleOrchestrator as getPageTitle }; 
\ No newline at end of file
+export { getPageMetadataOrchestrator as getPageMetadata }; 
\ No newline at end of file
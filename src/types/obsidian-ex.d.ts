@@ -1,7 +1,15 @@
 import type { moment } from "obsidian";
+import type { EditorView } from "@codemirror/view";
 
 declare global {
   interface Window {
     moment: typeof moment;
   }
 }
+
+declare module "obsidian" {
+  interface Editor {
+    /** The underlying CodeMirror 6 view, when the editor is backed by one. */
+    cm?: EditorView;
+  }
+}
@@ -136,6 +136,8 @@ export function findUnformattedUrls(
       const end = start + urlMatch[0].length;
 
       if (markdownRanges.some(r => start >= r.start && end <= r.end)) continue;
+      // Skip URLs stored in placeholder spans (<span ... url="...">)
+      if (line.substring(start - 5, start) === 'url="') continue;
       if (isPositionProtected(allLines, lineNum, start)) continue;
 
       results.push({ url: urlMatch[0], line: lineNum, start, end });
@@ -255,3 +257,19 @@ export function formatDuration(totalSeconds: number): string {
 
   return parts.join(":");
 }
+
+/**
+ * Formats a size in bytes to a readable size such as "532 KB" or "1.4 MB".
+ * @param bytes - The size in bytes.
+ * @returns The formatted size string.
+ */
+export function formatFileSize(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 || value >= 10 ? Math.round(value) : value.toFixed(1)} ${units[unit]}`;
+}
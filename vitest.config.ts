@@ -10,6 +10,18 @@ export default defineConfig({
       'utils': resolve('src/utils'),
       'title-utils': resolve('src/title-utils'),
       'settings': resolve('src/settings'),
+      'cache': resolve('src/cache'),
+      'storage': resolve('src/storage'),
+      'modals': resolve('src/modals'),
+      'retry': resolve('src/retry'),
+      'scheduler': resolve('src/scheduler'),
+      'bulk': resolve('src/bulk'),
+      'edit-batch': resolve('src/edit-batch'),
+      'request': resolve('src/request'),
+      'custom-clients': resolve('src/custom-clients'),
+      'registry': resolve('src/registry'),
+      'api': resolve('src/api'),
+      'images': resolve('src/images'),
       'types/extraction': resolve('src/types/extraction'),
       'types/failure-mode': resolve('src/types/failure-mode'),
     }